@@ -0,0 +1,31 @@
+import type { TradingAccountSummary } from "~/types";
+
+interface AccountSelectorProps {
+  accounts: TradingAccountSummary[];
+  selectedId: string;
+  onChange: (id: string) => void;
+}
+
+// Only shown when there's more than one account to route to
+export default function AccountSelector({
+  accounts,
+  selectedId,
+  onChange,
+}: AccountSelectorProps) {
+  if (accounts.length < 2) return null;
+
+  return (
+    <select
+      value={selectedId}
+      onChange={(e) => onChange(e.target.value)}
+      title="Account orders go to (Shift+A for the next one)"
+      className="rounded bg-gray-700 px-2 py-1 text-sm text-white"
+    >
+      {accounts.map((account) => (
+        <option key={account.id} value={account.id}>
+          {account.name}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,56 @@
+import type { Bracket } from "~/types";
+import { formatMoney } from "~/utils/positions";
+
+interface BracketsPanelProps {
+  brackets: Bracket[];
+}
+
+// The ten most recent brackets, open or closed
+export default function BracketsPanel({ brackets }: BracketsPanelProps) {
+  if (brackets.length === 0) return null;
+
+  return (
+    <div className="mb-6 rounded-lg bg-gray-800 p-4">
+      <h2 className="mb-3 text-lg font-semibold">Brackets</h2>
+      <div className="space-y-2">
+        {[...brackets]
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+          .slice(0, 10)
+          .map((bracket) => (
+            <div
+              key={bracket.parentOrderId}
+              className={`flex flex-wrap items-center justify-between gap-2 rounded bg-gray-700 px-3 py-2 text-sm ${
+                bracket.status === "closed" ? "opacity-60" : ""
+              }`}
+            >
+              <span>
+                <span className="font-semibold">{bracket.ticker}</span>{" "}
+                {bracket.shares.toLocaleString()} from{" "}
+                {formatMoney(bracket.entryPrice)}
+              </span>
+              <span className="flex gap-3 text-xs">
+                {bracket.legs.map((leg) => (
+                  <span
+                    key={leg.clientOrderId}
+                    className={
+                      leg.status === "filled"
+                        ? "font-semibold text-green-400"
+                        : leg.status === "working"
+                          ? "text-yellow-400"
+                          : "text-gray-400"
+                    }
+                    title={leg.error}
+                  >
+                    {leg.kind === "take_profit" ? "TP" : "SL"}{" "}
+                    {formatMoney(leg.price)} · {leg.status}
+                    {leg.fillPrice !== undefined &&
+                      ` @ ${formatMoney(leg.fillPrice)}`}
+                  </span>
+                ))}
+              </span>
+            </div>
+          ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import type { TradingMessage } from "~/types";
+
+interface MissedMessagesProps {
+  messages: TradingMessage[];
+  onOpen: (message: TradingMessage) => void;
+  onDismissAll: () => void;
+}
+
+// Messages that were too old to pop up when they arrived
+export default function MissedMessages({
+  messages,
+  onOpen,
+  onDismissAll,
+}: MissedMessagesProps) {
+  if (messages.length === 0) return null;
+
+  return (
+    <div className="mb-6 rounded-lg bg-gray-800 p-4">
+      <div className="mb-3 flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Missed While Disconnected</h2>
+        <button
+          onClick={() => onDismissAll()}
+          className="text-xs text-gray-400 hover:text-white"
+        >
+          Dismiss all
+        </button>
+      </div>
+      <div className="space-y-2">
+        {messages.map((message) => (
+          <div
+            key={message.id}
+            className="flex items-center justify-between rounded bg-gray-700 px-3 py-2"
+          >
+            <div className="min-w-0 flex-1 text-sm">
+              <span className="font-semibold">
+                [{message.sender}] {message.name}
+              </span>
+              <span className="ml-2 text-gray-300">
+                {message.tickers.join(", ")}
+              </span>
+              <div className="truncate text-xs text-gray-400">
+                {message.title || message.content}
+              </div>
+            </div>
+            <div className="ml-3 flex items-center space-x-3 text-xs text-gray-400">
+              <span>
+                {new Date(message.timestamp || "").toLocaleTimeString()}
+              </span>
+              <button
+                onClick={() => onOpen(message)}
+                className="rounded bg-blue-600 px-2 py-1 text-white hover:bg-blue-700"
+              >
+                Open
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
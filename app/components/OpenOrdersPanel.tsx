@@ -0,0 +1,258 @@
+import { useCallback, useState } from "react";
+import type { Bracket, OrderStatusUpdate } from "~/types";
+import type { ReplaceOrderRequest } from "~/types/socket";
+import { formatMoney } from "~/utils/positions";
+
+interface OpenOrdersPanelProps {
+  pendingOrders: OrderStatusUpdate[];
+  brackets: Bracket[];
+  onCancel: (clientOrderId: string) => void;
+  onReplace: (request: ReplaceOrderRequest) => void;
+}
+
+export default function OpenOrdersPanel({
+  pendingOrders,
+  brackets,
+  onCancel,
+  onReplace,
+}: OpenOrdersPanelProps) {
+  // Open order being modified, with its form values
+  const [editingOrder, setEditingOrder] = useState<{
+    clientOrderId: string;
+    shares: string;
+    priceField: "limitPrice" | "stopPrice" | null;
+    price: string;
+  } | null>(null);
+
+  const handleSaveOrderEdit = useCallback(() => {
+    if (!editingOrder) return;
+
+    const request: ReplaceOrderRequest = {
+      clientOrderId: editingOrder.clientOrderId,
+    };
+    const shares = parseInt(editingOrder.shares, 10);
+    if (!isNaN(shares) && shares > 0) request.shares = shares;
+    const price = parseFloat(editingOrder.price);
+    if (editingOrder.priceField && !isNaN(price) && price > 0) {
+      request[editingOrder.priceField] = price;
+    }
+
+    onReplace(request);
+    setEditingOrder(null);
+  }, [editingOrder, onReplace]);
+
+  // Open bracket exits are listed with their bracket, not as plain orders,
+  // though the outbox reports them too
+  const openLegs = brackets
+    .filter((bracket) => bracket.status === "active")
+    .flatMap((bracket) =>
+      bracket.legs
+        .filter((leg) => leg.status === "pending" || leg.status === "working")
+        .map((leg) => ({ bracket, leg })),
+    );
+  const legOrderIds = new Set(
+    brackets.flatMap((bracket) => bracket.legs.map((leg) => leg.clientOrderId)),
+  );
+  const openOrders = pendingOrders.filter(
+    (order) => !legOrderIds.has(order.clientOrderId),
+  );
+
+  const orderEditor = editingOrder && (
+    <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-gray-300">
+      {/* Bracket legs are sized to their entry, so only the price changes */}
+      {editingOrder.shares !== "" && (
+        <label className="flex items-center gap-1">
+          Shares
+          <input
+            type="number"
+            min="1"
+            value={editingOrder.shares}
+            onChange={(e) =>
+              setEditingOrder({ ...editingOrder, shares: e.target.value })
+            }
+            className="w-24 rounded bg-gray-600 px-2 py-1 text-white"
+          />
+        </label>
+      )}
+      {editingOrder.priceField && (
+        <label className="flex items-center gap-1">
+          {editingOrder.priceField === "limitPrice" ? "Limit" : "Stop"}
+          <input
+            type="number"
+            step="0.01"
+            min="0"
+            value={editingOrder.price}
+            onChange={(e) =>
+              setEditingOrder({ ...editingOrder, price: e.target.value })
+            }
+            className="w-24 rounded bg-gray-600 px-2 py-1 text-white"
+          />
+        </label>
+      )}
+      <button
+        onClick={handleSaveOrderEdit}
+        className="rounded bg-blue-600 px-2 py-1 hover:bg-blue-700"
+      >
+        Save
+      </button>
+      <button
+        onClick={() => setEditingOrder(null)}
+        className="rounded bg-gray-600 px-2 py-1 hover:bg-gray-500"
+      >
+        Close
+      </button>
+    </div>
+  );
+
+  if (openOrders.length === 0 && openLegs.length === 0) return null;
+
+  return (
+    <div className="mb-6 rounded-lg bg-gray-800 p-4">
+      <h2 className="mb-3 text-lg font-semibold">Open Orders</h2>
+      <div className="space-y-2">
+        {openOrders.map((order) => (
+          <div
+            key={order.clientOrderId}
+            className="rounded bg-gray-700 px-3 py-2"
+          >
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <div
+                  className={`rounded px-2 py-1 text-xs font-semibold ${
+                    order.action === "buy"
+                      ? "bg-green-600 text-white"
+                      : "bg-red-600 text-white"
+                  }`}
+                >
+                  {order.action.toUpperCase()}
+                </div>
+                <div className="text-sm">
+                  <span className="font-semibold">{order.ticker}</span>
+                  <span className="ml-2 text-gray-300">
+                    {order.shares} shares
+                    {order.limitPrice !== undefined &&
+                      ` · LMT ${formatMoney(order.limitPrice)}`}
+                    {order.stopPrice !== undefined &&
+                      ` · STP ${formatMoney(order.stopPrice)}`}
+                  </span>
+                </div>
+              </div>
+              <div className="flex items-center space-x-3">
+                <div className="text-right text-xs text-gray-400">
+                  <div>
+                    <span
+                      className={`font-semibold uppercase ${
+                        order.status === "sent"
+                          ? "text-blue-400"
+                          : order.status === "working"
+                            ? "text-green-400"
+                            : "text-yellow-400"
+                      }`}
+                    >
+                      {order.status}
+                    </span>{" "}
+                    · attempt {order.attempts}
+                  </div>
+                  {order.error && (
+                    <div className="text-red-400">{order.error}</div>
+                  )}
+                </div>
+                {/* Paper orders can only change before they're sent */}
+                {(order.status === "queued" ||
+                  (order.status === "working" && !order.paper)) && (
+                  <button
+                    onClick={() =>
+                      setEditingOrder({
+                        clientOrderId: order.clientOrderId,
+                        shares: String(order.shares),
+                        priceField:
+                          order.limitPrice !== undefined
+                            ? "limitPrice"
+                            : order.stopPrice !== undefined
+                              ? "stopPrice"
+                              : null,
+                        price: String(
+                          order.limitPrice ?? order.stopPrice ?? "",
+                        ),
+                      })
+                    }
+                    className="rounded bg-gray-600 px-2 py-1 text-xs hover:bg-gray-500"
+                  >
+                    Modify
+                  </button>
+                )}
+                <button
+                  onClick={() => onCancel(order.clientOrderId)}
+                  className="rounded bg-red-700 px-2 py-1 text-xs hover:bg-red-600"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+            {editingOrder?.clientOrderId === order.clientOrderId && orderEditor}
+          </div>
+        ))}
+        {openLegs.map(({ bracket, leg }) => (
+          <div
+            key={leg.clientOrderId}
+            className="rounded bg-gray-700 px-3 py-2"
+          >
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <div
+                  className={`rounded px-2 py-1 text-xs font-semibold ${
+                    bracket.action === "buy"
+                      ? "bg-green-600 text-white"
+                      : "bg-red-600 text-white"
+                  }`}
+                >
+                  {bracket.action.toUpperCase()}
+                </div>
+                <div className="text-sm">
+                  <span className="font-semibold">{bracket.ticker}</span>
+                  <span className="ml-2 text-gray-300">
+                    {bracket.shares} shares ·{" "}
+                    {leg.kind === "take_profit" ? "TP LMT" : "SL STP"}{" "}
+                    {formatMoney(leg.price)}
+                  </span>
+                </div>
+              </div>
+              <div className="flex items-center space-x-3">
+                <span
+                  className={`text-xs font-semibold uppercase ${
+                    leg.status === "working"
+                      ? "text-green-400"
+                      : "text-yellow-400"
+                  }`}
+                >
+                  {leg.status}
+                </span>
+                <button
+                  onClick={() =>
+                    setEditingOrder({
+                      clientOrderId: leg.clientOrderId,
+                      shares: "",
+                      priceField:
+                        leg.orderType === "limit" ? "limitPrice" : "stopPrice",
+                      price: String(leg.price),
+                    })
+                  }
+                  className="rounded bg-gray-600 px-2 py-1 text-xs hover:bg-gray-500"
+                >
+                  Modify
+                </button>
+                <button
+                  onClick={() => onCancel(leg.clientOrderId)}
+                  className="rounded bg-red-700 px-2 py-1 text-xs hover:bg-red-600"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+            {editingOrder?.clientOrderId === leg.clientOrderId && orderEditor}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
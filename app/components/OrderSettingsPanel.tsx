@@ -0,0 +1,113 @@
+import type { OrderSettings } from "~/utils/orderTypes";
+
+interface OrderSettingsPanelProps {
+  settings: OrderSettings;
+  onChange: (changes: Partial<OrderSettings>) => void;
+}
+
+export default function OrderSettingsPanel({
+  settings,
+  onChange,
+}: OrderSettingsPanelProps) {
+  return (
+    <div className="mt-6 rounded-lg bg-gray-800 p-4">
+      <h2 className="mb-3 text-lg font-semibold">Order Type</h2>
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-300">
+        <label className="flex items-center gap-2">
+          Type
+          <select
+            value={settings.orderType}
+            onChange={(e) =>
+              onChange({
+                orderType: e.target.value as OrderSettings["orderType"],
+              })
+            }
+            className="rounded bg-gray-700 px-2 py-1 text-white"
+          >
+            <option value="market">Market</option>
+            <option value="marketable_limit">Marketable limit</option>
+            <option value="limit">Limit</option>
+            <option value="stop">Stop</option>
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          Time in force
+          <select
+            value={settings.timeInForce}
+            onChange={(e) =>
+              onChange({
+                timeInForce: e.target.value as OrderSettings["timeInForce"],
+              })
+            }
+            className="rounded bg-gray-700 px-2 py-1 text-white"
+          >
+            <option value="day">Day</option>
+            <option value="ioc">IOC</option>
+            <option value="gtc">GTC</option>
+            <option value="fok">FOK</option>
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          Offset from last (%)
+          <input
+            type="number"
+            step="0.1"
+            value={settings.offsetPercent}
+            onChange={(e) =>
+              onChange({
+                offsetPercent: Number(e.target.value) || 0,
+              })
+            }
+            className="w-20 rounded bg-gray-700 px-2 py-1 text-white"
+          />
+        </label>
+      </div>
+      <div className="mt-3 flex flex-wrap items-center gap-4 text-sm text-gray-300">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.bracketEnabled}
+            onChange={(e) => onChange({ bracketEnabled: e.target.checked })}
+          />
+          Bracket buys
+        </label>
+        <label className="flex items-center gap-2">
+          Take profit (%)
+          <input
+            type="number"
+            step="0.1"
+            min="0"
+            value={settings.takeProfitPercent}
+            onChange={(e) =>
+              onChange({
+                takeProfitPercent: Math.max(Number(e.target.value) || 0, 0),
+              })
+            }
+            className="w-20 rounded bg-gray-700 px-2 py-1 text-white"
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          Stop loss (%)
+          <input
+            type="number"
+            step="0.1"
+            min="0"
+            value={settings.stopLossPercent}
+            onChange={(e) =>
+              onChange({
+                stopLossPercent: Math.max(Number(e.target.value) || 0, 0),
+              })
+            }
+            className="w-20 rounded bg-gray-700 px-2 py-1 text-white"
+          />
+        </label>
+      </div>
+      <p className="mt-2 text-xs text-gray-400">
+        Limit and stop prices are set from the last price: a positive offset is
+        above it for buys and below it for sells. Bracketed buys get a
+        take-profit and a stop-loss from the entry price once acknowledged; when
+        one fills the other is canceled. Set either to 0 to leave it out.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import {
+  formatMoney,
+  getOpenPositions,
+  getUnrealizedPnl,
+  type PositionLedger,
+} from "~/utils/positions";
+
+interface PositionsPanelProps {
+  positions: PositionLedger;
+  // Last price by ticker, for unrealized P&L
+  prices: Record<string, number>;
+}
+
+export default function PositionsPanel({
+  positions,
+  prices,
+}: PositionsPanelProps) {
+  const openPositions = getOpenPositions(positions);
+  if (openPositions.length === 0) return null;
+
+  return (
+    <div className="mb-6 rounded-lg bg-gray-800 p-4">
+      <h2 className="mb-3 text-lg font-semibold">Open Positions</h2>
+      <div className="grid grid-cols-2 gap-2 md:grid-cols-4">
+        {openPositions.map((position) => {
+          const lastPrice = prices[position.ticker];
+          const unrealizedPnl = getUnrealizedPnl(position, lastPrice);
+
+          return (
+            <div
+              key={position.ticker}
+              className="rounded bg-gray-700 px-3 py-2"
+            >
+              <div className="flex items-center justify-between">
+                <span className="font-semibold">{position.ticker}</span>
+                <span
+                  className={`text-sm font-semibold ${
+                    position.shares > 0
+                      ? "text-green-400"
+                      : position.shares < 0
+                        ? "text-red-400"
+                        : "text-gray-400"
+                  }`}
+                >
+                  {position.shares > 0
+                    ? "LONG"
+                    : position.shares < 0
+                      ? "SHORT"
+                      : "FLAT"}{" "}
+                  {position.shares !== 0 &&
+                    Math.abs(position.shares).toLocaleString()}
+                </span>
+              </div>
+              <div className="text-xs text-gray-400">
+                {position.bought.toLocaleString()} bought ·{" "}
+                {position.sold.toLocaleString()} sold · {position.trades} trades
+              </div>
+              <div className="text-xs text-gray-400">
+                {lastPrice !== undefined && (
+                  <>Last {formatMoney(lastPrice)} · </>
+                )}
+                {position.avgPrice !== null && position.shares !== 0 && (
+                  <>Avg {formatMoney(position.avgPrice)}</>
+                )}
+              </div>
+              <div className="flex justify-between text-xs">
+                <span
+                  className={
+                    unrealizedPnl === null
+                      ? "text-gray-500"
+                      : unrealizedPnl >= 0
+                        ? "text-green-400"
+                        : "text-red-400"
+                  }
+                >
+                  Unrl{" "}
+                  {unrealizedPnl === null || position.shares === 0
+                    ? "–"
+                    : formatMoney(unrealizedPnl)}
+                </span>
+                <span
+                  className={
+                    position.realizedPnl >= 0
+                      ? "text-green-400"
+                      : "text-red-400"
+                  }
+                >
+                  Rlzd {formatMoney(position.realizedPnl)}
+                </span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useState } from "react";
+import {
+  describeSizingRule,
+  type SizingRule,
+  type SizingRuleMatch,
+} from "~/utils/sizingRules";
+
+interface SizePresetsPanelProps {
+  rules: SizingRule[];
+  onChange: (rules: SizingRule[]) => void;
+}
+
+export default function SizePresetsPanel({
+  rules,
+  onChange,
+}: SizePresetsPanelProps) {
+  const [newRule, setNewRule] = useState<{
+    match: SizingRuleMatch;
+    pattern: string;
+    shares: string;
+  }>({ match: "sender", pattern: "", shares: "" });
+
+  const handleAddSizingRule = (e: React.FormEvent) => {
+    e.preventDefault();
+    const shares = parseInt(newRule.shares, 10);
+    if (!newRule.pattern.trim() || isNaN(shares) || shares <= 0) return;
+
+    onChange([
+      ...rules,
+      {
+        id: `rule_${Date.now()}`,
+        match: newRule.match,
+        pattern: newRule.pattern.trim(),
+        shares,
+      },
+    ]);
+    setNewRule((prev) => ({ ...prev, pattern: "", shares: "" }));
+  };
+
+  return (
+    <div className="mt-6 rounded-lg bg-gray-800 p-4">
+      <h2 className="mb-3 text-lg font-semibold">Size Presets</h2>
+      <p className="mb-3 text-xs text-gray-400">
+        Override the share amount when a message matches. Ticker presets win
+        over sender presets, which win over keywords.
+      </p>
+      <form
+        onSubmit={handleAddSizingRule}
+        className="mb-3 flex flex-wrap items-center gap-2 text-sm"
+      >
+        <select
+          value={newRule.match}
+          onChange={(e) =>
+            setNewRule((prev) => ({
+              ...prev,
+              match: e.target.value as SizingRuleMatch,
+            }))
+          }
+          className="rounded bg-gray-700 px-2 py-1 text-white"
+        >
+          <option value="sender">Sender</option>
+          <option value="ticker">Ticker</option>
+          <option value="keyword">Keyword</option>
+        </select>
+        <input
+          type="text"
+          value={newRule.pattern}
+          onChange={(e) =>
+            setNewRule((prev) => ({ ...prev, pattern: e.target.value }))
+          }
+          placeholder={
+            newRule.match === "ticker"
+              ? "AAPL"
+              : newRule.match === "sender"
+                ? "Sender name"
+                : "Word or phrase"
+          }
+          className="rounded bg-gray-700 px-2 py-1 text-white"
+        />
+        <input
+          type="number"
+          min="1"
+          value={newRule.shares}
+          onChange={(e) =>
+            setNewRule((prev) => ({ ...prev, shares: e.target.value }))
+          }
+          placeholder="Shares"
+          className="w-28 rounded bg-gray-700 px-2 py-1 text-white"
+        />
+        <button
+          type="submit"
+          className="rounded bg-blue-600 px-3 py-1 text-white hover:bg-blue-700"
+        >
+          Add
+        </button>
+      </form>
+      {rules.length > 0 && (
+        <div className="space-y-1">
+          {rules.map((rule) => (
+            <div
+              key={rule.id}
+              className="flex items-center justify-between rounded bg-gray-700 px-3 py-1 text-sm"
+            >
+              <span>{describeSizingRule(rule)}</span>
+              <button
+                onClick={() =>
+                  onChange(rules.filter((other) => other.id !== rule.id))
+                }
+                className="text-xs text-red-400 hover:text-red-300"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
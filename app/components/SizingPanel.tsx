@@ -0,0 +1,79 @@
+import type { SharesRounding, SizingSettings } from "~/utils/sizing";
+
+interface SizingPanelProps {
+  sizing: SizingSettings;
+  onChange: (changes: Partial<SizingSettings>) => void;
+}
+
+export default function SizingPanel({ sizing, onChange }: SizingPanelProps) {
+  return (
+    <div className="mt-6 rounded-lg bg-gray-800 p-4">
+      <h2 className="mb-3 text-lg font-semibold">Position Sizing</h2>
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-300">
+        <div className="flex overflow-hidden rounded">
+          {(["shares", "notional"] as const).map((mode) => (
+            <button
+              key={mode}
+              onClick={() => onChange({ mode })}
+              className={`px-3 py-1 ${
+                sizing.mode === mode
+                  ? "bg-blue-600 text-white"
+                  : "bg-gray-700 hover:bg-gray-600"
+              }`}
+            >
+              {mode === "shares" ? "Shares" : "Dollars"}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2">
+          Dollar amount
+          <input
+            type="number"
+            min="1"
+            value={sizing.notional}
+            onChange={(e) =>
+              onChange({
+                notional: Math.max(1, Number(e.target.value)),
+              })
+            }
+            className="w-28 rounded bg-gray-700 px-2 py-1 text-white"
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          Max shares
+          <input
+            type="number"
+            min="1"
+            value={sizing.maxShares}
+            onChange={(e) =>
+              onChange({
+                maxShares: Math.max(1, Number(e.target.value)),
+              })
+            }
+            className="w-28 rounded bg-gray-700 px-2 py-1 text-white"
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          Rounding
+          <select
+            value={sizing.rounding}
+            onChange={(e) =>
+              onChange({ rounding: e.target.value as SharesRounding })
+            }
+            className="rounded bg-gray-700 px-2 py-1 text-white"
+          >
+            <option value="down">Round down</option>
+            <option value="nearest">Nearest share</option>
+            <option value="round_lot">Round lots (100)</option>
+          </select>
+        </label>
+      </div>
+      {sizing.mode === "notional" && (
+        <p className="mt-2 text-xs text-gray-400">
+          Shares are worked out from the last price; tickers without a price
+          can&apos;t be traded in dollar mode.
+        </p>
+      )}
+    </div>
+  );
+}
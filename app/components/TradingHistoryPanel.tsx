@@ -0,0 +1,157 @@
+import { useState } from "react";
+import type { TradingLog } from "~/types";
+
+interface TradingHistoryPanelProps {
+  // Live entries first, then the pages loaded from the API
+  logs: TradingLog[];
+  // How many of `total` have been paged in
+  loadedCount: number;
+  total: number;
+  // Set when there's another page to load
+  cursor: string | null;
+  loading: boolean;
+  onLoadMore: (cursor: string) => void;
+  // Exports cover the session's history: paper or live
+  paper: boolean;
+}
+
+export default function TradingHistoryPanel({
+  logs,
+  loadedCount,
+  total,
+  cursor,
+  loading,
+  onLoadMore,
+  paper,
+}: TradingHistoryPanelProps) {
+  const [exportRange, setExportRange] = useState({
+    startDate: "",
+    endDate: "",
+  });
+
+  const getExportUrl = (format: "csv" | "jsonl" | "blotter") => {
+    const params = new URLSearchParams({
+      format,
+      paper: String(paper),
+    });
+    if (exportRange.startDate) params.set("startDate", exportRange.startDate);
+    // Include the whole end day
+    if (exportRange.endDate) {
+      params.set("endDate", `${exportRange.endDate}T23:59:59.999Z`);
+    }
+    return `/api/history/export?${params}`;
+  };
+
+  return (
+    <div className="rounded-lg bg-gray-800 p-4">
+      <div className="mb-3 flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Trading History</h2>
+        {total > 0 && (
+          <span className="text-xs text-gray-400">
+            {loadedCount} of {total} logged
+          </span>
+        )}
+      </div>
+      <div className="mb-3 flex flex-wrap items-center gap-2 text-xs text-gray-300">
+        <span>Export</span>
+        <input
+          type="date"
+          value={exportRange.startDate}
+          onChange={(e) =>
+            setExportRange((prev) => ({
+              ...prev,
+              startDate: e.target.value,
+            }))
+          }
+          className="rounded bg-gray-700 px-2 py-1 text-white"
+        />
+        <span>to</span>
+        <input
+          type="date"
+          value={exportRange.endDate}
+          onChange={(e) =>
+            setExportRange((prev) => ({ ...prev, endDate: e.target.value }))
+          }
+          className="rounded bg-gray-700 px-2 py-1 text-white"
+        />
+        {(["csv", "jsonl", "blotter"] as const).map((format) => (
+          <a
+            key={format}
+            href={getExportUrl(format)}
+            download
+            className="rounded bg-gray-700 px-2 py-1 hover:bg-gray-600"
+          >
+            {format === "blotter" ? "Blotter" : format.toUpperCase()}
+          </a>
+        ))}
+      </div>
+      <div className="max-h-[28rem] overflow-y-auto">
+        {logs.length > 0 ? (
+          <div className="space-y-2">
+            {logs.map((trade, index) => (
+              <div
+                key={`${trade.timestamp}-${index}`}
+                className="rounded bg-gray-700 px-3"
+              >
+                <div className="flex items-center justify-between py-2">
+                  <div className="flex items-center space-x-3">
+                    <div
+                      className={`rounded px-2 py-1 text-xs font-semibold ${
+                        trade.action === "buy"
+                          ? "bg-green-600 text-white"
+                          : "bg-red-600 text-white"
+                      }`}
+                    >
+                      {trade.action.toUpperCase()}
+                    </div>
+                    <div className="text-sm">
+                      <span className="font-semibold">{trade.ticker}</span>
+                      <span className="ml-2 text-gray-300">
+                        {trade.quantity}x {trade.shares} shares
+                      </span>
+                    </div>
+                  </div>
+                  <div className="text-right text-xs text-gray-400">
+                    <div>{new Date(trade.timestamp).toLocaleString()}</div>
+                    {trade.sender && <div>From: {trade.sender}</div>}
+                    {trade.messageId && (
+                      <div>Msg Id: {trade.messageId.slice(-10)}</div>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))}
+            {cursor && (
+              <button
+                onClick={() => onLoadMore(cursor)}
+                disabled={loading}
+                className="w-full rounded bg-gray-700 py-2 text-sm text-gray-300 hover:bg-gray-600 disabled:opacity-50"
+              >
+                {loading ? "Loading..." : "Load more"}
+              </button>
+            )}
+          </div>
+        ) : (
+          <div className="py-8 text-center">
+            <div className="text-gray-400">
+              <svg
+                className="mx-auto mb-2 h-8 w-8"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z"
+                />
+              </svg>
+              <p>No trades yet</p>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
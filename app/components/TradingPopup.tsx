@@ -1,18 +1,65 @@
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import type { TradingMessage } from "~/types";
-import type { HotkeyState } from "~/utils/hotkeys";
-import { handleKeyPress } from "~/utils/hotkeys";
+import {
+  reduceHotkeys,
+  scheduleHotkeyTimers,
+  type HotkeyEffect,
+  type HotkeyEvent,
+  type HotkeyState,
+} from "~/utils/hotkeys";
+import {
+  DEFAULT_KEYMAP,
+  describeCommandKeys,
+  getCommandDigit,
+  resolveCommand,
+  type Keymap,
+} from "~/utils/keymap";
+import {
+  formatMoney,
+  getUnrealizedPnl,
+  type PositionLedger,
+} from "~/utils/positions";
+import {
+  describeBracket,
+  describeOrderSettings,
+  type OrderSettings,
+} from "~/utils/orderTypes";
+import { resolveOrderSize, type SizingSettings } from "~/utils/sizing";
+import { describeSizingRule, type SizingRule } from "~/utils/sizingRules";
 
 interface TradingPopupProps {
   message: TradingMessage | null;
   onClose: () => void;
-  onTrade: (action: "buy" | "sell", ticker: string, shares: number) => void;
+  onTrade: (
+    action: "buy" | "sell",
+    ticker: string,
+    shares: number,
+    quantity: number,
+  ) => void;
   selectedTicker: number;
   shareAmount: number;
   hotkeyState: HotkeyState;
   onTickerChange: (ticker: number) => void;
   onShareChange: (shares: number) => void;
   onStateChange: (state: HotkeyState) => void;
+  // Current positions by ticker, when the caller tracks them
+  positions?: PositionLedger;
+  // Last price by ticker, when a price feed is running
+  prices?: Record<string, number>;
+  // Dollar sizing; without it orders are always `shareAmount` shares
+  sizing?: SizingSettings;
+  onToggleSizing?: () => void;
+  // Preset that set `shareAmount` for this message, shown so it's no surprise
+  sizingRule?: SizingRule | null;
+  orderSettings?: OrderSettings;
+  onCycleOrderType?: () => void;
+  onCycleTimeInForce?: () => void;
+  // X cancels the last order, Shift+X every open order in the message
+  onCancelLast?: () => void;
+  onCancelAll?: () => void;
+  // Account orders go to, shown when there's more than one to pick from
+  account?: string;
+  keymap?: Keymap;
 }
 
 export default function TradingPopup({
@@ -25,14 +72,110 @@ export default function TradingPopup({
   onTickerChange,
   onShareChange,
   onStateChange,
+  positions,
+  prices,
+  sizing,
+  onToggleSizing,
+  sizingRule,
+  orderSettings,
+  onCycleOrderType,
+  onCycleTimeInForce,
+  onCancelLast,
+  onCancelAll,
+  account,
+  keymap = DEFAULT_KEYMAP,
 }: TradingPopupProps) {
   const [isVisible, setIsVisible] = useState(false);
   const stateRef = useRef(hotkeyState);
 
+  const isNotionalSizing = sizing?.mode === "notional";
+  const getOrderSize = useCallback(
+    (ticker: string | undefined) =>
+      ticker
+        ? resolveOrderSize(sizing, shareAmount, prices?.[ticker.toUpperCase()])
+        : null,
+    [sizing, shareAmount, prices],
+  );
+
   useEffect(() => {
     stateRef.current = hotkeyState;
   }, [hotkeyState]);
 
+  const runEffect = useCallback(
+    (effect: HotkeyEffect) => {
+      switch (effect.type) {
+        case "buy":
+        case "sell": {
+          const ticker = message?.tickers[selectedTicker - 1];
+          const size = getOrderSize(ticker);
+          if (ticker && size) {
+            onTrade(effect.type, ticker, size.shares, effect.quantity);
+          }
+          break;
+        }
+        case "selectTicker":
+          onTickerChange(effect.ticker);
+          break;
+        case "setShares":
+          onShareChange(effect.shares);
+          break;
+        case "close":
+          onClose();
+          break;
+        case "toggleSizing":
+          onToggleSizing?.();
+          break;
+        case "cycleOrderType":
+          onCycleOrderType?.();
+          break;
+        case "cycleTimeInForce":
+          onCycleTimeInForce?.();
+          break;
+        case "cancelLast":
+          onCancelLast?.();
+          break;
+        case "cancelAll":
+          onCancelAll?.();
+          break;
+      }
+    },
+    [
+      message,
+      selectedTicker,
+      getOrderSize,
+      onTrade,
+      onTickerChange,
+      onShareChange,
+      onClose,
+      onToggleSizing,
+      onCycleOrderType,
+      onCycleTimeInForce,
+      onCancelLast,
+      onCancelAll,
+    ],
+  );
+
+  const dispatch = useCallback(
+    (event: HotkeyEvent) => {
+      const { state, effects } = reduceHotkeys(stateRef.current, event);
+      if (state !== stateRef.current) {
+        stateRef.current = state;
+        onStateChange(state);
+      }
+      effects.forEach(runEffect);
+    },
+    [runEffect, onStateChange],
+  );
+
+  // Timers keep running after the popup closes so the close cooldown ends
+  useEffect(
+    () =>
+      scheduleHotkeyTimers(hotkeyState, (now) =>
+        dispatch({ type: "TICK", now }),
+      ),
+    [hotkeyState, dispatch],
+  );
+
   useEffect(() => {
     if (message) {
       setIsVisible(true);
@@ -46,6 +189,14 @@ export default function TradingPopup({
     if (!message) return; // Only handle keys when popup is open
 
     const handleKeyDown = (e: KeyboardEvent) => {
+      const command = resolveCommand(keymap, e);
+      // What share entry still takes while the share input is active
+      const isShareEntryCommand =
+        command !== null &&
+        (getCommandDigit(command) !== null ||
+          command === "confirm" ||
+          command === "close");
+
       // Don't handle if focused on input fields, but allow our hotkeys when not changing shares
       if (
         e.target instanceof HTMLInputElement ||
@@ -58,11 +209,8 @@ export default function TradingPopup({
           if (!isOurShareInput) {
             return; // Block all other inputs when changing shares
           }
-          // Only allow number keys, enter, backspace, escape for share changing
-          const key = e.key.toLowerCase();
-          if (
-            !(/\d/.test(key) || ["enter", "backspace", "escape"].includes(key))
-          ) {
+          // Only allow digits, confirm and back for share changing
+          if (!isShareEntryCommand) {
             return;
           }
         } else {
@@ -75,87 +223,21 @@ export default function TradingPopup({
         }
       }
 
+      if (!command) return;
       // Prevent default for our hotkeys
-      const key = e.key.toLowerCase();
-      if (
-        ["b", "s", "c", "enter", "backspace", "escape"].includes(key) ||
-        /\d/.test(key)
-      ) {
-        e.preventDefault();
-      }
-
-      // Disable buy/sell/ticker selection when changing shares
-      if (hotkeyState.isChangingShares) {
-        if (["b", "s"].includes(key) || /\d/.test(key)) {
-          // Only process numbers for share changing, block buy/sell
-          if (
-            /\d/.test(key) ||
-            ["enter", "backspace", "escape"].includes(key)
-          ) {
-            const newState = handleKeyPress(
-              e.key,
-              stateRef.current,
-              message.tickers.length,
-              () => {}, // Disabled
-              () => {}, // Disabled
-              () => {}, // Disabled
-              onShareChange,
-              onClose,
-            );
-
-            if (newState !== stateRef.current) {
-              stateRef.current = newState;
-              onStateChange(newState);
-            }
-          }
-          return;
-        }
-      }
-
-      const newState = handleKeyPress(
-        e.key,
-        stateRef.current,
-        message.tickers.length,
-        (quantity) => {
-          if (!hotkeyState.isChangingShares) {
-            const ticker = message.tickers[selectedTicker - 1];
-            if (ticker) onTrade("buy", ticker, quantity);
-          }
-        },
-        (quantity) => {
-          if (!hotkeyState.isChangingShares) {
-            const ticker = message.tickers[selectedTicker - 1];
-            if (ticker) onTrade("sell", ticker, quantity);
-          }
-        },
-        (tickerNum) => {
-          if (!hotkeyState.isChangingShares) {
-            onTickerChange(tickerNum);
-          }
-        },
-        onShareChange,
-        onClose,
-      );
+      e.preventDefault();
 
-      if (newState !== stateRef.current) {
-        stateRef.current = newState;
-        onStateChange(newState);
-      }
+      dispatch({
+        type: "KEY",
+        command,
+        totalTickers: message.tickers.length,
+        now: Date.now(),
+      });
     };
 
     document.addEventListener("keydown", handleKeyDown);
     return () => document.removeEventListener("keydown", handleKeyDown);
-  }, [
-    message,
-    selectedTicker,
-    shareAmount,
-    hotkeyState.isChangingShares,
-    onTrade,
-    onTickerChange,
-    onShareChange,
-    onClose,
-    onStateChange,
-  ]);
+  }, [message, hotkeyState.isChangingShares, keymap, dispatch]);
 
   const handleClose = (e?: React.MouseEvent) => {
     if (e) {
@@ -186,14 +268,34 @@ export default function TradingPopup({
     const ticker = message.tickers[selectedTicker - 1];
     if (!ticker) return;
 
+    const size = getOrderSize(ticker);
+    if (!size) return;
+
     // Don't close immediately, let the parent handle the trade result
-    onTrade(action, ticker, shareAmount);
+    onTrade(action, ticker, size.shares, 1);
     // Remove the automatic close - let parent decide when to close
     // handleClose();
   };
 
   if (!message) return null;
 
+  const currentTicker = message.tickers[selectedTicker - 1];
+  const currentPosition = currentTicker
+    ? positions?.[currentTicker.toUpperCase()]
+    : undefined;
+  const positionShares = currentPosition?.shares || 0;
+  const unrealizedPnl = currentPosition
+    ? getUnrealizedPnl(currentPosition, prices?.[currentTicker.toUpperCase()])
+    : null;
+  const currentSize = getOrderSize(currentTicker);
+  const sizeLabel = currentSize
+    ? `${currentSize.shares.toLocaleString()}${
+        currentSize.notional !== null
+          ? ` (~${formatMoney(currentSize.notional)})`
+          : ""
+      }${currentSize.capped ? " max" : ""}`
+    : "no price";
+
   const highlightKeywords = (text: string) => {
     const keywords = [
       "adding",
@@ -245,6 +347,11 @@ export default function TradingPopup({
             <div className="flex-1">
               <h2 className="text-2xl font-semibold text-white">
                 [{message.sender}] - {message.name}
+                {(message.seenCount ?? 0) > 1 && (
+                  <span className="ml-3 rounded-full bg-purple-600 px-2 py-1 align-middle text-xs font-semibold">
+                    Seen {message.seenCount} times
+                  </span>
+                )}
               </h2>
               <p className="mt-1 text-sm text-gray-400">
                 {new Date(message.timestamp || "").toLocaleTimeString()}
@@ -286,7 +393,7 @@ export default function TradingPopup({
         <div className="p-4">
           <div className="mb-4">
             <label className="mb-2 block text-sm font-medium text-gray-300">
-              Share Amount{" "}
+              {isNotionalSizing ? "Dollar Amount" : "Share Amount"}{" "}
               {hotkeyState.isChangingShares && (
                 <span className="font-bold text-yellow-400">(Changing...)</span>
               )}
@@ -297,17 +404,21 @@ export default function TradingPopup({
                 value={
                   hotkeyState.isChangingShares
                     ? hotkeyState.shareChangeBuffer
-                    : shareAmount
+                    : isNotionalSizing
+                      ? sizing.notional
+                      : shareAmount
                 }
                 onClick={(e) => {
                   // Prevent default click behavior
                   e.preventDefault();
                   e.stopPropagation();
 
-                  // Dispatch 'c' keydown event
-                  document.body.dispatchEvent(
-                    new KeyboardEvent("keydown", { key: "c", bubbles: true }),
-                  );
+                  dispatch({
+                    type: "KEY",
+                    command: "changeShares",
+                    totalTickers: message.tickers.length,
+                    now: Date.now(),
+                  });
                 }}
                 className={`w-24 rounded border px-2 py-1 text-sm text-white transition-all focus:outline-none ${
                   hotkeyState.isChangingShares
@@ -324,17 +435,31 @@ export default function TradingPopup({
               <span className="text-xs text-gray-400">
                 {hotkeyState.isChangingShares
                   ? "Type number + Enter to confirm"
-                  : "C + [number] + Enter or click to edit"}
+                  : `${describeCommandKeys(keymap, "changeShares")} + [number] + ${describeCommandKeys(keymap, "confirm")} or click to edit`}
+                {onToggleSizing && !hotkeyState.isChangingShares && (
+                  <>
+                    {" "}
+                    · {describeCommandKeys(keymap, "toggleSizing")}: size in{" "}
+                    {isNotionalSizing ? "shares" : "dollars"}
+                  </>
+                )}
               </span>
             </div>
+            {sizingRule && !hotkeyState.isChangingShares && (
+              <div className="mt-2 inline-block rounded bg-indigo-700 px-2 py-1 text-xs text-indigo-100">
+                Preset: {describeSizingRule(sizingRule)}
+              </div>
+            )}
             {hotkeyState.isChangingShares && (
               <div className="mt-2 rounded border border-yellow-400/50 bg-yellow-900/50 px-3 py-2">
                 <div className="text-sm text-yellow-200">
                   <span className="font-bold">Share Change Mode Active</span>
                 </div>
                 <div className="mt-1 text-xs text-yellow-300">
-                  Type the number of shares and press Enter to confirm, or
-                  Escape to cancel
+                  Type the{" "}
+                  {isNotionalSizing ? "dollar amount" : "number of shares"} and
+                  press {describeCommandKeys(keymap, "confirm")} to confirm, or{" "}
+                  {describeCommandKeys(keymap, "close")} to cancel
                 </div>
               </div>
             )}
@@ -387,11 +512,85 @@ export default function TradingPopup({
                 >
                   <div className="font-mono font-bold">{index + 1}</div>
                   <div className="text-xs">{ticker}</div>
+                  {prices?.[ticker.toUpperCase()] !== undefined && (
+                    <div className="text-[10px] opacity-75">
+                      {formatMoney(prices[ticker.toUpperCase()])}
+                      <br />
+                      {formatMoney(getOrderSize(ticker)?.notional ?? 0)}
+                    </div>
+                  )}
                 </button>
               ))}
             </div>
           </div>
 
+          {positions && (
+            <div className="mb-2 text-center text-xs text-gray-400">
+              Position in {currentTicker}:{" "}
+              {positionShares === 0 ? (
+                "flat"
+              ) : (
+                <span
+                  className={`font-semibold ${
+                    positionShares > 0 ? "text-green-400" : "text-red-400"
+                  }`}
+                >
+                  {positionShares > 0 ? "long" : "short"}{" "}
+                  {Math.abs(positionShares).toLocaleString()}
+                </span>
+              )}
+              {unrealizedPnl !== null && positionShares !== 0 && (
+                <span
+                  className={`ml-2 ${
+                    unrealizedPnl >= 0 ? "text-green-400" : "text-red-400"
+                  }`}
+                >
+                  ({formatMoney(unrealizedPnl)} unrealized)
+                </span>
+              )}
+            </div>
+          )}
+
+          {orderSettings && (
+            <div className="mb-2 flex items-center justify-center space-x-2 text-xs text-gray-400">
+              <span
+                className={`rounded px-2 py-1 font-mono font-semibold ${
+                  orderSettings.orderType === "market"
+                    ? "bg-gray-700 text-gray-200"
+                    : "bg-amber-600 text-white"
+                }`}
+              >
+                {describeOrderSettings(orderSettings)}
+              </span>
+              {orderSettings.bracketEnabled && (
+                <span className="rounded bg-indigo-600 px-2 py-1 font-mono font-semibold text-white">
+                  {describeBracket(orderSettings)}
+                </span>
+              )}
+              <span>
+                {describeCommandKeys(keymap, "cycleOrderType")}: order type ·{" "}
+                {describeCommandKeys(keymap, "cycleTimeInForce")}: time in force
+              </span>
+            </div>
+          )}
+
+          {account && (
+            <div className="mb-2 text-center text-xs text-gray-400">
+              Account{" "}
+              <span className="font-mono font-semibold text-white">
+                {account}
+              </span>
+            </div>
+          )}
+
+          {onCancelLast && (
+            <div className="mb-2 text-center text-xs text-gray-400">
+              {describeCommandKeys(keymap, "cancelLast")}: cancel last order ·{" "}
+              {describeCommandKeys(keymap, "cancelAll")}: cancel all in{" "}
+              {message.tickers.join(", ")}
+            </div>
+          )}
+
           <div className="flex space-x-3">
             <button
               onClick={(e) =>
@@ -406,7 +605,7 @@ export default function TradingPopup({
             >
               {hotkeyState.isChangingShares
                 ? "Buy (Disabled)"
-                : `Buy (B) - ${shareAmount} of ${message.tickers[selectedTicker - 1]}`}
+                : `Buy (${describeCommandKeys(keymap, "buy")}) - ${sizeLabel} of ${currentTicker}`}
             </button>
             <button
               onClick={(e) =>
@@ -421,7 +620,7 @@ export default function TradingPopup({
             >
               {hotkeyState.isChangingShares
                 ? "Sell (Disabled)"
-                : `Sell (S) - ${shareAmount} of ${message.tickers[selectedTicker - 1]}`}
+                : `Sell (${describeCommandKeys(keymap, "sell")}) - ${sizeLabel} of ${currentTicker}`}
             </button>
           </div>
         </div>
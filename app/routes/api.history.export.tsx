@@ -0,0 +1,59 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { requireUserId } from "~/utils/auth.server";
+import {
+  formatHistoryExport,
+  parseHistoryQuery,
+  type HistoryExportFormat,
+} from "~/utils/history.server";
+import { getTradingLogs } from "../../server/logger";
+
+const FORMATS: HistoryExportFormat[] = ["csv", "jsonl", "blotter"];
+
+// GET /api/history/export?format=csv|jsonl|blotter - every log matching the
+// same filters as /api/history, oldest first, as a file download
+export async function loader({ request }: LoaderFunctionArgs) {
+  const userId = await requireUserId(request);
+  const { searchParams } = new URL(request.url);
+
+  const format = (searchParams.get("format") || "csv") as HistoryExportFormat;
+  if (!FORMATS.includes(format)) {
+    return json(
+      { error: `format must be one of: ${FORMATS.join(", ")}` },
+      { status: 400 },
+    );
+  }
+
+  const query = parseHistoryQuery(searchParams);
+  if (typeof query === "string") {
+    return json({ error: query }, { status: 400 });
+  }
+
+  // Sorting and paging don't apply to exports
+  const { startDate, endDate, ticker, action, messageId, sender } = query;
+  const { success, paper, account } = query;
+  const logs = (
+    await getTradingLogs({
+      userId,
+      startDate,
+      endDate,
+      ticker,
+      action,
+      messageId,
+      sender,
+      success,
+      paper,
+      account,
+    })
+  ).reverse();
+
+  const { body, contentType, extension } = formatHistoryExport(logs, format);
+  const date = new Date().toISOString().slice(0, 10);
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": `${contentType}; charset=utf-8`,
+      "Content-Disposition": `attachment; filename="trading-${format}-${date}.${extension}"`,
+    },
+  });
+}
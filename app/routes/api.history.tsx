@@ -0,0 +1,25 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { requireUserId } from "~/utils/auth.server";
+import { parseHistoryQuery } from "~/utils/history.server";
+import { queryTradingLogs } from "../../server/logger";
+
+// GET /api/history - the signed-in user's trading history, one page at a time
+export async function loader({ request }: LoaderFunctionArgs) {
+  const userId = await requireUserId(request);
+
+  const query = parseHistoryQuery(new URL(request.url).searchParams);
+  if (typeof query === "string") {
+    return json({ error: query }, { status: 400 });
+  }
+
+  try {
+    // Users only ever see their own history
+    return json(await queryTradingLogs({ ...query, userId }));
+  } catch (error) {
+    return json(
+      { error: error instanceof Error ? error.message : "Invalid query" },
+      { status: 400 },
+    );
+  }
+}
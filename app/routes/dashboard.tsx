@@ -1,26 +1,106 @@
 import type { LoaderFunctionArgs } from "@remix-run/node";
 import { json } from "@remix-run/node";
 import { Form, Link, useLoaderData } from "@remix-run/react";
-import { existsSync, readFileSync } from "fs";
-import { join } from "path";
-import { useCallback, useEffect, useState } from "react";
-import type { TradingAction, TradingLog, TradingMessage } from "~/types";
+import { useCallback, useEffect, useRef, useState } from "react";
+import type {
+  Bracket,
+  OrderStatusUpdate,
+  PaperAccount,
+  Position,
+  PriceTick,
+  TradingAccountSummary,
+  TradingAction,
+  TradingHaltState,
+  TradingHistoryPage,
+  TradingLog,
+  TradingMessage,
+  TradingMessageUpdate,
+  TradingResponse,
+} from "~/types";
+import type { OrderRequestResult, PayloadError } from "~/types/socket";
 import { requireUserId } from "~/utils/auth.server";
 import { createInitialHotkeyState, type HotkeyState } from "~/utils/hotkeys";
 import {
+  DEFAULT_KEYMAP,
+  describeCommandKeys,
+  type Keymap,
+} from "~/utils/keymap";
+import {
+  cycleValue,
+  DEFAULT_ORDER_SETTINGS,
+  getOrderFields,
+  ORDER_TYPES,
+  TIME_IN_FORCE,
+  type OrderSettings,
+} from "~/utils/orderTypes";
+import { formatMoney, type PositionLedger } from "~/utils/positions";
+import { DEFAULT_SIZING, type SizingSettings } from "~/utils/sizing";
+import { findSizingRule, type SizingRule } from "~/utils/sizingRules";
+import {
+  getStoredAccount,
+  getStoredKeymap,
+  getStoredOrderSettings,
+  getStoredPaperMode,
   getStoredShareAmount,
+  getStoredSizing,
+  getStoredSizingRules,
+  setStoredAccount,
+  setStoredOrderSettings,
+  setStoredPaperMode,
   setStoredShareAmount,
+  setStoredSizing,
+  setStoredSizingRules,
 } from "~/utils/localStorage";
 import {
+  cancelOrder,
+  cancelOrders,
+  createClientOrderId,
   initSocket,
+  offBracketsSnapshot,
+  offBracketUpdate,
   offMessage,
+  offMessageUpdate,
+  offOrderStatus,
+  offOrderRequestResult,
+  offOutboxSnapshot,
+  offPaperAccount,
+  offPayloadError,
+  offPositionsSnapshot,
+  offPositionUpdate,
+  offPricesSnapshot,
+  offPriceUpdate,
+  offTradingHalt,
   offTradingResponse,
+  onBracketsSnapshot,
+  onBracketUpdate,
   onMessage,
+  onMessageUpdate,
+  onOrderStatus,
+  onOrderRequestResult,
+  onOutboxSnapshot,
+  onPaperAccount,
+  onPayloadError,
+  onPositionsSnapshot,
+  onPositionUpdate,
+  onPricesSnapshot,
+  onPriceUpdate,
+  onTradingHalt,
   onTradingResponse,
+  replaceOrder,
   sendTradingAction,
+  setTradingHalt,
 } from "~/utils/websocket.client";
 
+import AccountSelector from "~/components/AccountSelector";
+import BracketsPanel from "~/components/BracketsPanel";
+import MissedMessages from "~/components/MissedMessages";
 import NotificationPopup from "~/components/NotificationPopup";
+import OpenOrdersPanel from "~/components/OpenOrdersPanel";
+import OrderSettingsPanel from "~/components/OrderSettingsPanel";
+import PositionsPanel from "~/components/PositionsPanel";
+import SizePresetsPanel from "~/components/SizePresetsPanel";
+import SizingPanel from "~/components/SizingPanel";
+import TradingHistoryPanel from "~/components/TradingHistoryPanel";
 import TradingPopup from "~/components/TradingPopup";
 
 export async function loader({ request }: LoaderFunctionArgs) {
@@ -44,37 +124,50 @@ export async function loader({ request }: LoaderFunctionArgs) {
     return cookies[tokenName] || "";
   }
 
-  // Read trading logs from file
-  const logsPath = join(process.cwd(), "data", "trading-history.json");
-  let historicalLogs: TradingLog[] = [];
-  if (existsSync(logsPath)) {
-    try {
-      const fileContent = readFileSync(logsPath, "utf-8");
-      historicalLogs = JSON.parse(fileContent);
-      historicalLogs = historicalLogs
-        .filter((log) => log.userId === userId)
-        .sort(
-          (a, b) =>
-            new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime(),
-        );
-    } catch (error) {
-      console.error("Error reading trading logs:", error);
-    }
-  }
-
   const cookieHeader = request.headers.get("cookie");
   const token = getTokenFromCookie(cookieHeader, "ticker_deck_session");
-  return json({ userId, token, historicalLogs });
+  return json({ userId, token });
+}
+const HISTORY_PAGE_SIZE = 25;
+
+// Dashboard-wide hotkeys stay out of the way of anything being typed
+function isTypingTarget(target: EventTarget | null): boolean {
+  const element = target as HTMLElement | null;
+  return (
+    !!element &&
+    (["INPUT", "SELECT", "TEXTAREA"].includes(element.tagName) ||
+      element.isContentEditable)
+  );
 }
+
 export default function Dashboard() {
-  const { userId, token, historicalLogs } = useLoaderData<typeof loader>();
+  const { userId, token } = useLoaderData<typeof loader>();
 
   const [messageQueue, setMessageQueue] = useState<TradingMessage[]>([]);
+  const [missedMessages, setMissedMessages] = useState<TradingMessage[]>([]);
   const [currentMessage, setCurrentMessage] = useState<TradingMessage | null>(
     null,
   );
   const [tradingHistory, setTradingHistory] = useState<TradingLog[]>([]);
+  const [historyLogs, setHistoryLogs] = useState<TradingLog[]>([]);
+  const [historyCursor, setHistoryCursor] = useState<string | null>(null);
+  const [historyTotal, setHistoryTotal] = useState(0);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [pendingOrders, setPendingOrders] = useState<OrderStatusUpdate[]>([]);
+  const [positions, setPositions] = useState<PositionLedger>({});
+  const [prices, setPrices] = useState<Record<string, number>>({});
+  const [brackets, setBrackets] = useState<Bracket[]>([]);
+  const lastOrderIdRef = useRef<string | null>(null);
+  const [tradingHalt, setTradingHaltState] = useState<TradingHaltState | null>(
+    null,
+  );
   const [isConnected, setIsConnected] = useState(false);
+  // paperMode is what we ask for; session is what the server gave us
+  const [paperMode, setPaperMode] = useState(false);
+  const [session, setSession] = useState({ paper: false, paperOnly: false });
+  const [paperAccount, setPaperAccount] = useState<PaperAccount | null>(null);
+  const [accounts, setAccounts] = useState<TradingAccountSummary[]>([]);
+  const [accountId, setAccountId] = useState<string | null>(null);
   const [notificationAllowed, setNotificationAllowed] = useState(false);
   const [notification, setNotification] = useState<{
     id: string;
@@ -86,10 +179,60 @@ export default function Dashboard() {
   const [hotkeyState, setHotkeyState] = useState<HotkeyState>(
     createInitialHotkeyState(),
   );
+  const [keymap, setKeymap] = useState<Keymap>(DEFAULT_KEYMAP);
   const [selectedTicker, setSelectedTicker] = useState(1);
   const [shareAmount, setShareAmount] = useState(4900);
+  const [sizing, setSizing] = useState<SizingSettings>(DEFAULT_SIZING);
+  const [sizingRules, setSizingRules] = useState<SizingRule[]>([]);
+  const [orderSettings, setOrderSettings] = useState<OrderSettings>(
+    DEFAULT_ORDER_SETTINGS,
+  );
+  const [presetOverridden, setPresetOverridden] = useState(false);
+
+  // A live entry comes back from the API once its page loads, logged under
+  // the same order id (partial fills log several rows per order). Drop the
+  // live copy then, but never collapse the API's own rows.
+  const loggedOrderIds = new Set(historyLogs.map((log) => log.clientOrderId));
+  const allTradingHistory = [
+    ...tradingHistory.filter((log) => !loggedOrderIds.has(log.clientOrderId)),
+    ...historyLogs,
+  ];
+
+  // Pages through /api/history, newest first; a null cursor starts over
+  const loadHistoryPage = useCallback(
+    async (cursor: string | null) => {
+      setHistoryLoading(true);
+      try {
+        const params = new URLSearchParams({
+          limit: String(HISTORY_PAGE_SIZE),
+          paper: String(session.paper),
+        });
+        if (cursor) params.set("cursor", cursor);
+
+        const response = await fetch(`/api/history?${params}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || response.statusText);
+        }
+
+        const page = data as TradingHistoryPage;
+        setHistoryLogs((prev) =>
+          cursor ? [...prev, ...page.logs] : page.logs,
+        );
+        setHistoryCursor(page.nextCursor);
+        setHistoryTotal(page.total);
+      } catch (error) {
+        console.error("Error loading trading history:", error);
+      } finally {
+        setHistoryLoading(false);
+      }
+    },
+    [session.paper],
+  );
 
-  const allTradingHistory = [...tradingHistory, ...historicalLogs];
+  useEffect(() => {
+    loadHistoryPage(null);
+  }, [loadHistoryPage]);
 
   const checkPermission = async () => {
     if (typeof window !== "undefined" && "Notification" in window) {
@@ -113,7 +256,12 @@ export default function Dashboard() {
     checkPermission();
 
     if (token) {
-      const socket = initSocket(token);
+      const socket = initSocket(token, { paper: paperMode });
+
+      socket.on("connection_success", (data) => {
+        setSession({ paper: data.paper, paperOnly: data.paperOnly });
+        setAccounts(data.accounts);
+      });
 
       socket.on("connect", async () => {
         setIsConnected(true);
@@ -128,12 +276,61 @@ export default function Dashboard() {
         socket.disconnect();
       };
     }
-  }, [token]);
+  }, [token, paperMode]);
+
+  // Live and paper keep separate orders, positions and history, so start
+  // clean whenever the session switches
+  useEffect(() => {
+    setTradingHistory([]);
+    setPendingOrders([]);
+    setPositions({});
+    setBrackets([]);
+    setPaperAccount(null);
+  }, [session.paper]);
+
+  const handlePaperModeToggle = () => {
+    setPaperMode(!session.paper);
+    setStoredPaperMode(!session.paper);
+  };
 
   useEffect(() => {
     const storedAmount = getStoredShareAmount();
     setShareAmount(storedAmount);
-  }, []);
+    setSizing(getStoredSizing());
+    setSizingRules(getStoredSizingRules());
+    setOrderSettings(getStoredOrderSettings());
+    setPaperMode(getStoredPaperMode());
+    setAccountId(getStoredAccount());
+    setKeymap(getStoredKeymap(userId));
+  }, [userId]);
+
+  // A remembered account the server no longer offers falls back to the first
+  const selectedAccount =
+    accounts.find((account) => account.id === accountId) || accounts[0];
+
+  const handleAccountChange = (id: string) => {
+    setAccountId(id);
+    setStoredAccount(id);
+  };
+
+  // Presets apply afresh to every message
+  useEffect(() => {
+    setPresetOverridden(false);
+  }, [currentMessage?.id]);
+
+  const appliedSizingRule =
+    currentMessage && !presetOverridden
+      ? findSizingRule(
+          sizingRules,
+          currentMessage,
+          currentMessage.tickers[selectedTicker - 1],
+        )
+      : null;
+
+  const updateSizingRules = (rules: SizingRule[]) => {
+    setSizingRules(rules);
+    setStoredSizingRules(rules);
+  };
 
   const handleMessage = useCallback((message: TradingMessage) => {
     console.log("Received message:", message);
@@ -146,9 +343,32 @@ export default function Dashboard() {
       timestamp: message.timestamp || new Date().toISOString(),
     };
 
+    // Too old to act on: list it instead of popping it up
+    if (message.stale) {
+      setMissedMessages((prev) => [messageWithId, ...prev]);
+      return;
+    }
+
     setMessageQueue((prev) => [...prev, messageWithId]);
   }, []);
 
+  // A feed reposted a message we already have: bump its counter wherever it is
+  const handleMessageUpdate = useCallback((update: TradingMessageUpdate) => {
+    const applyUpdate = (message: TradingMessage) =>
+      message.id === update.id
+        ? { ...message, seenCount: update.seenCount }
+        : message;
+
+    setMessageQueue((prev) => prev.map(applyUpdate));
+    setMissedMessages((prev) => prev.map(applyUpdate));
+    setCurrentMessage((prev) => (prev ? applyUpdate(prev) : prev));
+  }, []);
+
+  const handleOpenMissedMessage = useCallback((message: TradingMessage) => {
+    setMissedMessages((prev) => prev.filter((m) => m.id !== message.id));
+    setMessageQueue((prev) => [...prev, message]);
+  }, []);
+
   useEffect(() => {
     if (messageQueue.length > 0 && !currentMessage) {
       const nextMessage = messageQueue[0];
@@ -164,70 +384,313 @@ export default function Dashboard() {
     }
   }, [messageQueue, currentMessage]);
 
-  const handleTradingResponse = useCallback(
-    (response: any) => {
-      console.log("Trading response:", response);
+  const handleTradingResponse = useCallback((response: TradingResponse) => {
+    console.log("Trading response:", response);
 
-      const notificationData = {
+    // Duplicate submission: the original response was already handled
+    if (response.replayed) {
+      setNotification({
         id: Date.now().toString(),
-        title: response.success ? "Trade Executed" : "Trade Failed",
-        message:
-          response.message ||
-          `${response.action} ${response.quantity}x ${response.shares} shares of ${response.ticker}`,
+        title: "Duplicate Order Ignored",
+        message: `Order ${response.clientOrderId} was already submitted`,
         timestamp: new Date().toISOString(),
-        type: response.success ? ("success" as const) : ("error" as const),
-      };
+        type: "warning",
+      });
+      return;
+    }
+
+    // A resting order hasn't filled yet; its fill arrives as an order_status
+    if (response.success) {
+      const working = response.orders?.filter(
+        (order) => order.status === "working",
+      ).length;
+      if (working) {
+        setNotification({
+          id: Date.now().toString(),
+          title: "Order Working",
+          message: `${response.action?.toUpperCase()} ${working}x ${response.shares} shares of ${response.ticker} resting until it fills`,
+          timestamp: new Date().toISOString(),
+          type: "info",
+        });
+      }
+      return;
+    }
+
+    const isRiskRejection = response.status === "risk_rejected";
+    const isHalted = response.status === "halted";
+    setNotification({
+      id: Date.now().toString(),
+      title: isRiskRejection
+        ? `Order Rejected: ${response.action?.toUpperCase()} ${response.ticker}`
+        : isHalted
+          ? "Trading Halted - Order Not Sent"
+          : "Trade Failed",
+      message: isRiskRejection
+        ? response.error || response.message
+        : response.message ||
+          `${response.action} ${response.quantity}x ${response.shares} shares of ${response.ticker}`,
+      timestamp: new Date().toISOString(),
+      type: isRiskRejection || isHalted ? "warning" : "error",
+    });
+  }, []);
 
-      setNotification(notificationData);
+  const handleOrderStatus = useCallback(
+    (update: OrderStatusUpdate) => {
+      // Only filled shares make it into the history; an order canceled part
+      // way through keeps what it filled
+      if (
+        update.filledShares &&
+        (update.status === "acked" || update.status === "canceled")
+      ) {
+        if (update.status === "acked") {
+          setNotification({
+            id: Date.now().toString(),
+            title: "Trade Executed",
+            message: `${update.action.toUpperCase()} ${update.filledShares} shares of ${update.ticker}${update.fillPrice !== undefined ? ` at ${update.fillPrice.toFixed(2)}` : ""}`,
+            timestamp: new Date().toISOString(),
+            type: "success",
+          });
+        }
 
-      if (response.success) {
         const tradeLog: TradingLog = {
-          timestamp: response.timestamp || new Date().toISOString(),
+          timestamp: update.updatedAt,
           userId: userId,
-          action: response.action,
-          ticker: response.ticker,
-          shares: response.shares,
-          quantity: response.quantity,
+          action: update.action,
+          ticker: update.ticker,
+          shares: update.filledShares,
+          quantity: 1,
           success: true,
-          messageId: response.messageId,
+          messageId: update.messageId,
+          clientOrderId: update.clientOrderId,
+          price: update.fillPrice,
+          orderType: update.orderType,
+          limitPrice: update.limitPrice,
+          stopPrice: update.stopPrice,
+          paper: update.paper,
         };
 
         setTradingHistory((prev) => [tradeLog, ...prev]);
       }
+
+      setPendingOrders((prev) => {
+        const isSettled = ["acked", "rejected", "expired", "canceled"].includes(
+          update.status,
+        );
+        const exists = prev.some(
+          (order) => order.clientOrderId === update.clientOrderId,
+        );
+
+        if (isSettled) {
+          return prev.filter(
+            (order) => order.clientOrderId !== update.clientOrderId,
+          );
+        }
+
+        return exists
+          ? prev.map((order) =>
+              order.clientOrderId === update.clientOrderId ? update : order,
+            )
+          : [...prev, update];
+      });
     },
     [userId],
   );
 
+  const handlePositionsSnapshot = useCallback((snapshot: Position[]) => {
+    setPositions(
+      Object.fromEntries(
+        snapshot.map((position) => [position.ticker, position]),
+      ),
+    );
+  }, []);
+
+  const handlePositionUpdate = useCallback((position: Position) => {
+    setPositions((prev) => ({ ...prev, [position.ticker]: position }));
+  }, []);
+
+  const handleBracketUpdate = useCallback((bracket: Bracket) => {
+    setBrackets((prev) => [
+      ...prev.filter((b) => b.parentOrderId !== bracket.parentOrderId),
+      bracket,
+    ]);
+  }, []);
+
+  const handleOrderRequestResult = useCallback((result: OrderRequestResult) => {
+    setNotification({
+      id: Date.now().toString(),
+      title: result.success
+        ? result.request === "replace_order"
+          ? "Order Modified"
+          : "Cancel Sent"
+        : result.request === "replace_order"
+          ? "Modify Failed"
+          : "Nothing Canceled",
+      message: result.message,
+      timestamp: new Date().toISOString(),
+      type: result.success ? "info" : "warning",
+    });
+  }, []);
+
+  const handlePricesSnapshot = useCallback((ticks: PriceTick[]) => {
+    setPrices(
+      Object.fromEntries(ticks.map((tick) => [tick.ticker, tick.price])),
+    );
+  }, []);
+
+  const handlePriceUpdate = useCallback((tick: PriceTick) => {
+    setPrices((prev) => ({ ...prev, [tick.ticker]: tick.price }));
+  }, []);
+
+  // The server refused an event because its payload didn't match the schema
+  const handlePayloadError = useCallback((error: PayloadError) => {
+    console.error("Payload rejected:", error);
+    setNotification({
+      id: Date.now().toString(),
+      title: `Request Rejected (${error.event})`,
+      message: error.issues
+        .map((issue) => `${issue.path}: ${issue.message}`)
+        .join(", "),
+      timestamp: new Date().toISOString(),
+      type: "error",
+    });
+  }, []);
+
   useEffect(() => {
     onMessage(handleMessage);
+    onMessageUpdate(handleMessageUpdate);
     onTradingResponse(handleTradingResponse);
+    onOrderStatus(handleOrderStatus);
+    onOutboxSnapshot(setPendingOrders);
+    onTradingHalt(setTradingHaltState);
+    onPayloadError(handlePayloadError);
+    onPositionsSnapshot(handlePositionsSnapshot);
+    onPositionUpdate(handlePositionUpdate);
+    onPricesSnapshot(handlePricesSnapshot);
+    onPriceUpdate(handlePriceUpdate);
+    onBracketsSnapshot(setBrackets);
+    onBracketUpdate(handleBracketUpdate);
+    onOrderRequestResult(handleOrderRequestResult);
+    onPaperAccount(setPaperAccount);
 
     return () => {
       offMessage(handleMessage);
+      offMessageUpdate(handleMessageUpdate);
       offTradingResponse(handleTradingResponse);
+      offOrderStatus(handleOrderStatus);
+      offOutboxSnapshot(setPendingOrders);
+      offTradingHalt(setTradingHaltState);
+      offPayloadError(handlePayloadError);
+      offPositionsSnapshot(handlePositionsSnapshot);
+      offPositionUpdate(handlePositionUpdate);
+      offPricesSnapshot(handlePricesSnapshot);
+      offPriceUpdate(handlePriceUpdate);
+      offBracketsSnapshot(setBrackets);
+      offBracketUpdate(handleBracketUpdate);
+      offOrderRequestResult(handleOrderRequestResult);
+      offPaperAccount(setPaperAccount);
+    };
+    // Switching modes replaces the socket, so the listeners go on the new one
+  }, [
+    paperMode,
+    handleMessage,
+    handleMessageUpdate,
+    handleTradingResponse,
+    handleOrderStatus,
+    handlePayloadError,
+    handlePositionsSnapshot,
+    handlePositionUpdate,
+    handlePricesSnapshot,
+    handlePriceUpdate,
+    handleBracketUpdate,
+    handleOrderRequestResult,
+  ]);
+
+  const handleHaltToggle = useCallback(() => {
+    if (tradingHalt?.halted) {
+      setTradingHalt(false);
+    } else {
+      setTradingHalt(true, "Halted from dashboard");
+    }
+  }, [tradingHalt]);
+
+  // Shift+H halts everything from anywhere on the dashboard but a text field.
+  // Resuming is deliberately button-only so a stray keypress can't restart
+  // trading.
+  useEffect(() => {
+    const handleHaltHotkey = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target)) return;
+      if (e.shiftKey && e.key.toLowerCase() === "h") {
+        e.preventDefault();
+        setTradingHalt(true, "Halted via hotkey");
+      }
+    };
+
+    document.addEventListener("keydown", handleHaltHotkey);
+    return () => document.removeEventListener("keydown", handleHaltHotkey);
+  }, []);
+
+  // Shift+A moves to the next account, unless it's being typed into a field
+  useEffect(() => {
+    const handleAccountHotkey = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target)) return;
+      if (e.shiftKey && e.key.toLowerCase() === "a" && accounts.length > 1) {
+        e.preventDefault();
+        const next = cycleValue(
+          accounts.map((account) => account.id),
+          selectedAccount.id,
+        );
+        setAccountId(next);
+        setStoredAccount(next);
+      }
     };
-  }, [handleMessage, handleTradingResponse]);
+
+    document.addEventListener("keydown", handleAccountHotkey);
+    return () => document.removeEventListener("keydown", handleAccountHotkey);
+  }, [accounts, selectedAccount]);
 
   const handleTrade = useCallback(
-    (action: "buy" | "sell", ticker: string, shares: number) => {
+    (
+      action: "buy" | "sell",
+      ticker: string,
+      shares: number,
+      quantity: number,
+    ) => {
       if (!currentMessage) return;
 
+      const clientOrderId = createClientOrderId();
       const tradingAction: TradingAction = {
         action,
         ticker,
         shares,
-        quantity: 1,
+        quantity,
         timestamp: new Date().toISOString(),
         messageId: currentMessage.id,
         sender: currentMessage.sender,
         name: currentMessage.name,
+        clientOrderId,
+        ...getOrderFields(orderSettings, action),
+        account: selectedAccount?.id,
       };
 
+      // X cancels this one (and its bracket) until the next order
+      lastOrderIdRef.current = clientOrderId;
       sendTradingAction(tradingAction);
     },
-    [currentMessage],
+    [currentMessage, orderSettings, selectedAccount],
   );
 
+  const handleCancelLast = useCallback(() => {
+    if (lastOrderIdRef.current) {
+      cancelOrder(lastOrderIdRef.current);
+    }
+  }, []);
+
+  const handleCancelAll = useCallback(() => {
+    if (currentMessage) {
+      cancelOrders(currentMessage.tickers);
+    }
+  }, [currentMessage]);
+
   const handleClosePopup = useCallback(() => {
     setCurrentMessage(null);
   }, []);
@@ -236,11 +699,53 @@ export default function Dashboard() {
     setSelectedTicker(ticker);
   }, []);
 
-  const handleShareChange = useCallback((shares: number) => {
-    setShareAmount(shares);
-    setStoredShareAmount(shares);
+  const updateSizing = useCallback((changes: Partial<SizingSettings>) => {
+    setSizing((prev) => {
+      const next = { ...prev, ...changes };
+      setStoredSizing(next);
+      return next;
+    });
+  }, []);
+
+  // C+number+Enter sets whichever amount the current sizing mode uses, and
+  // takes over from any preset for the rest of the message
+  const handleShareChange = useCallback(
+    (amount: number) => {
+      setPresetOverridden(true);
+      if (sizing.mode === "notional") {
+        updateSizing({ notional: amount });
+        return;
+      }
+      setShareAmount(amount);
+      setStoredShareAmount(amount);
+    },
+    [sizing.mode, updateSizing],
+  );
+
+  const updateOrderSettings = useCallback((changes: Partial<OrderSettings>) => {
+    setOrderSettings((prev) => {
+      const next = { ...prev, ...changes };
+      setStoredOrderSettings(next);
+      return next;
+    });
   }, []);
 
+  const handleCycleOrderType = useCallback(() => {
+    updateOrderSettings({
+      orderType: cycleValue(ORDER_TYPES, orderSettings.orderType),
+    });
+  }, [orderSettings.orderType, updateOrderSettings]);
+
+  const handleCycleTimeInForce = useCallback(() => {
+    updateOrderSettings({
+      timeInForce: cycleValue(TIME_IN_FORCE, orderSettings.timeInForce),
+    });
+  }, [orderSettings.timeInForce, updateOrderSettings]);
+
+  const handleToggleSizing = useCallback(() => {
+    updateSizing({ mode: sizing.mode === "notional" ? "shares" : "notional" });
+  }, [sizing.mode, updateSizing]);
+
   return (
     <div className="min-h-screen bg-gray-900 text-white">
       <TradingPopup
@@ -250,9 +755,21 @@ export default function Dashboard() {
         onTickerChange={handleTickerChange}
         onShareChange={handleShareChange}
         selectedTicker={selectedTicker}
-        shareAmount={shareAmount}
+        shareAmount={appliedSizingRule?.shares ?? shareAmount}
         hotkeyState={hotkeyState}
         onStateChange={setHotkeyState}
+        positions={positions}
+        prices={prices}
+        sizing={appliedSizingRule ? undefined : sizing}
+        onToggleSizing={handleToggleSizing}
+        sizingRule={appliedSizingRule}
+        orderSettings={orderSettings}
+        onCycleOrderType={handleCycleOrderType}
+        onCycleTimeInForce={handleCycleTimeInForce}
+        onCancelLast={handleCancelLast}
+        onCancelAll={handleCancelAll}
+        account={accounts.length > 1 ? selectedAccount.name : undefined}
+        keymap={keymap}
       />
 
       <NotificationPopup
@@ -260,8 +777,32 @@ export default function Dashboard() {
         onClose={() => setNotification(null)}
       />
 
+      {tradingHalt?.halted && (
+        <div className="animate-pulse bg-red-700 px-4 py-3 text-center">
+          <div className="text-2xl font-extrabold tracking-widest">
+            TRADING HALTED
+          </div>
+          <div className="text-sm text-red-100">
+            {tradingHalt.reason} — by {tradingHalt.updatedBy} at{" "}
+            {new Date(tradingHalt.updatedAt).toLocaleTimeString()}
+          </div>
+        </div>
+      )}
+
       <header className="flex items-center justify-between bg-gray-800 p-4">
-        <h1 className="text-2xl font-bold">Trading Dashboard</h1>
+        <div className="flex items-center space-x-3">
+          <h1 className="text-2xl font-bold">Trading Dashboard</h1>
+          {session.paper && (
+            <span className="rounded bg-yellow-400 px-2 py-1 text-sm font-extrabold tracking-widest text-gray-900">
+              PAPER
+            </span>
+          )}
+          {session.paper && paperAccount && (
+            <span className="text-sm text-gray-300">
+              Cash {formatMoney(paperAccount.cash)}
+            </span>
+          )}
+        </div>
         <div className="flex items-center space-x-4">
           <div className="flex items-center space-x-2">
             <div
@@ -277,11 +818,50 @@ export default function Dashboard() {
                 {messageQueue.length} pending
               </span>
             )}
+            {pendingOrders.length > 0 && (
+              <span className="rounded-full bg-yellow-600 px-2 py-1 text-xs">
+                {pendingOrders.length} in flight
+              </span>
+            )}
           </div>
+          <AccountSelector
+            accounts={accounts}
+            selectedId={selectedAccount?.id}
+            onChange={handleAccountChange}
+          />
+          <button
+            onClick={handlePaperModeToggle}
+            disabled={session.paperOnly}
+            title={
+              session.paperOnly
+                ? "This account can only paper trade"
+                : undefined
+            }
+            className="rounded bg-gray-700 px-3 py-1 text-sm font-semibold text-white transition-colors hover:bg-gray-600 disabled:opacity-50"
+          >
+            {session.paper ? "Switch to Live" : "Switch to Paper"}
+          </button>
+          <button
+            onClick={handleHaltToggle}
+            disabled={!isConnected}
+            className={`rounded px-3 py-1 text-sm font-semibold text-white transition-colors disabled:opacity-50 ${
+              tradingHalt?.halted
+                ? "bg-green-600 hover:bg-green-700"
+                : "bg-red-600 hover:bg-red-700"
+            }`}
+          >
+            {tradingHalt?.halted ? "Resume Trading" : "Halt Trading (Shift+H)"}
+          </button>
           <nav className="space-x-4">
             <Link to="/practice" className="text-blue-400 hover:text-blue-300">
               Practice Mode
             </Link>
+            <Link
+              to="/settings/hotkeys"
+              className="text-blue-400 hover:text-blue-300"
+            >
+              Hotkeys
+            </Link>
             <Form method="post" action="/logout" className="inline">
               <button type="submit" className="text-red-400 hover:text-red-300">
                 Logout
@@ -292,67 +872,41 @@ export default function Dashboard() {
       </header>
 
       <main className="p-6">
-        {/* Trading History with Fixed Height and Scroll */}
-        <div className="rounded-lg bg-gray-800 p-4">
-          <h2 className="mb-3 text-lg font-semibold">Trading History</h2>
-          <div className="max-h-[28rem] overflow-y-auto">
-            {allTradingHistory.length > 0 ? (
-              <div className="space-y-2">
-                {allTradingHistory.map((trade, index) => (
-                  <div
-                    key={`${trade.timestamp}-${index}`}
-                    className="rounded bg-gray-700 px-3"
-                  >
-                    <div className="flex items-center justify-between py-2">
-                      <div className="flex items-center space-x-3">
-                        <div
-                          className={`rounded px-2 py-1 text-xs font-semibold ${
-                            trade.action === "buy"
-                              ? "bg-green-600 text-white"
-                              : "bg-red-600 text-white"
-                          }`}
-                        >
-                          {trade.action.toUpperCase()}
-                        </div>
-                        <div className="text-sm">
-                          <span className="font-semibold">{trade.ticker}</span>
-                          <span className="ml-2 text-gray-300">
-                            {trade.quantity}x {trade.shares} shares
-                          </span>
-                        </div>
-                      </div>
-                      <div className="text-right text-xs text-gray-400">
-                        <div>{new Date(trade.timestamp).toLocaleString()}</div>
-                        {trade.messageId && (
-                          <div>Msg Id: {trade.messageId.slice(-10)}</div>
-                        )}
-                      </div>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            ) : (
-              <div className="py-8 text-center">
-                <div className="text-gray-400">
-                  <svg
-                    className="mx-auto mb-2 h-8 w-8"
-                    fill="none"
-                    stroke="currentColor"
-                    viewBox="0 0 24 24"
-                  >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z"
-                    />
-                  </svg>
-                  <p>No trades yet</p>
-                </div>
-              </div>
-            )}
-          </div>
-        </div>
+        <MissedMessages
+          messages={missedMessages}
+          onOpen={handleOpenMissedMessage}
+          onDismissAll={() => setMissedMessages([])}
+        />
+
+        <OpenOrdersPanel
+          pendingOrders={pendingOrders}
+          brackets={brackets}
+          onCancel={cancelOrder}
+          onReplace={replaceOrder}
+        />
+
+        <PositionsPanel positions={positions} prices={prices} />
+
+        <BracketsPanel brackets={brackets} />
+
+        <TradingHistoryPanel
+          logs={allTradingHistory}
+          loadedCount={historyLogs.length}
+          total={historyTotal}
+          cursor={historyCursor}
+          loading={historyLoading}
+          onLoadMore={loadHistoryPage}
+          paper={session.paper}
+        />
+
+        <SizingPanel sizing={sizing} onChange={updateSizing} />
+
+        <OrderSettingsPanel
+          settings={orderSettings}
+          onChange={updateOrderSettings}
+        />
+
+        <SizePresetsPanel rules={sizingRules} onChange={updateSizingRules} />
 
         <div className="mt-6 rounded-lg bg-gray-800 p-4">
           <h2 className="mb-3 text-lg font-semibold">Controls</h2>
@@ -364,6 +918,9 @@ export default function Dashboard() {
               <ul className="space-y-1 text-xs text-gray-300">
                 <li>• Messages appear as popups when received</li>
                 <li>• Multiple messages queue automatically</li>
+                <li>
+                  • Missed messages replay on reconnect; old ones are listed
+                </li>
               </ul>
             </div>
             <div>
@@ -372,8 +929,32 @@ export default function Dashboard() {
               </h3>
               <ul className="space-y-1 text-xs text-gray-300">
                 <li>• Numbers: Select ticker (1-99)</li>
-                <li>• C+number+Enter: Set shares | B: Buy | S: Sell</li>
-                <li>• Enter: Confirm ticker | Backspace/Esc: Close/Edit</li>
+                <li>
+                  • {describeCommandKeys(keymap, "changeShares")}+number+
+                  {describeCommandKeys(keymap, "confirm")}: Set shares |
+                  {describeCommandKeys(keymap, "buy")}: Buy |{" "}
+                  {describeCommandKeys(keymap, "sell")}: Sell
+                </li>
+                <li>
+                  • {describeCommandKeys(keymap, "toggleSizing")}: Toggle share
+                  / dollar sizing
+                </li>
+                <li>
+                  • {describeCommandKeys(keymap, "cycleOrderType")}: Cycle order
+                  type |{describeCommandKeys(keymap, "cycleTimeInForce")}: Cycle
+                  time in force
+                </li>
+                <li>
+                  • {describeCommandKeys(keymap, "cancelLast")}: Cancel last
+                  order |{describeCommandKeys(keymap, "cancelAll")}: Cancel all
+                  in message
+                </li>
+                <li>
+                  • {describeCommandKeys(keymap, "confirm")}: Confirm ticker |{" "}
+                  {describeCommandKeys(keymap, "close")}: Close/Edit
+                </li>
+                <li>• Shift+H: Halt all trading</li>
+                <li>• Shift+A: Next account</li>
               </ul>
             </div>
           </div>
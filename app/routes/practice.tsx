@@ -7,6 +7,8 @@ import { useCallback, useEffect, useState } from "react";
 import type { TradingAction, TradingMessage } from "~/types";
 import { requireUserId } from "~/utils/auth.server";
 import { createInitialHotkeyState, type HotkeyState } from "~/utils/hotkeys";
+import { DEFAULT_KEYMAP, type Keymap } from "~/utils/keymap";
+import { getStoredKeymap } from "~/utils/localStorage";
 
 import NotificationPopup from "~/components/NotificationPopup";
 import TradingPopup from "~/components/TradingPopup";
@@ -211,6 +213,11 @@ export default function Practice() {
   const [hotkeyState, setHotkeyState] = useState<HotkeyState>(
     createInitialHotkeyState(),
   );
+  const [keymap, setKeymap] = useState<Keymap>(DEFAULT_KEYMAP);
+
+  useEffect(() => {
+    setKeymap(getStoredKeymap(userId));
+  }, [userId]);
 
   // Add the missing effect for message queue progression
   useEffect(() => {
@@ -264,7 +271,12 @@ export default function Practice() {
   }, []);
 
   const handleTrade = useCallback(
-    (action: "buy" | "sell", ticker: string, shares: number) => {
+    (
+      action: "buy" | "sell",
+      ticker: string,
+      shares: number,
+      quantity: number,
+    ) => {
       if (!currentMessage || !isTestActive) return;
 
       const currentTime = Date.now();
@@ -274,7 +286,7 @@ export default function Practice() {
         action,
         ticker,
         shares,
-        quantity: 1,
+        quantity,
         timestamp: new Date().toISOString(),
         messageId: currentMessage.id,
         timingMs: timeSinceMessage,
@@ -285,7 +297,7 @@ export default function Practice() {
       const notificationData = {
         id: Date.now().toString(),
         title: "Action Recorded",
-        message: `${action.toUpperCase()} ${shares} shares of ${ticker} (${timeSinceMessage}ms)`,
+        message: `${action.toUpperCase()} ${quantity}x ${shares} shares of ${ticker} (${timeSinceMessage}ms)`,
         timestamp: new Date().toISOString(),
         type: "success" as const,
       };
@@ -497,6 +509,7 @@ export default function Practice() {
         shareAmount={shareAmount}
         hotkeyState={hotkeyState}
         onStateChange={setHotkeyState}
+        keymap={keymap}
       />
 
       <NotificationPopup
@@ -530,6 +543,12 @@ export default function Practice() {
               Trading Dashboard
             </Link>
           )}
+          <Link
+            to="/settings/hotkeys"
+            className="text-blue-400 hover:text-blue-300"
+          >
+            Hotkeys
+          </Link>
           <Form method="post" action="/logout" className="inline">
             <button type="submit" className="text-red-400 hover:text-red-300">
               Logout
@@ -0,0 +1,198 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { Link, useLoaderData } from "@remix-run/react";
+import { useEffect, useState } from "react";
+import { requireUserId } from "~/utils/auth.server";
+import {
+  DEFAULT_KEYMAP,
+  findKeymapConflicts,
+  formatKeyBinding,
+  getKeyBinding,
+  HOTKEY_COMMAND_LABELS,
+  HOTKEY_COMMANDS,
+  type HotkeyCommand,
+  type Keymap,
+} from "~/utils/keymap";
+import { getStoredKeymap, setStoredKeymap } from "~/utils/localStorage";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const userId = await requireUserId(request);
+  return json({ userId });
+}
+
+export default function HotkeySettings() {
+  const { userId } = useLoaderData<typeof loader>();
+
+  const [keymap, setKeymap] = useState<Keymap>(DEFAULT_KEYMAP);
+  // Command waiting for its next key
+  const [capturing, setCapturing] = useState<HotkeyCommand | null>(null);
+  const [status, setStatus] = useState<"unchanged" | "changed" | "saved">(
+    "unchanged",
+  );
+
+  useEffect(() => {
+    setKeymap(getStoredKeymap(userId));
+  }, [userId]);
+
+  useEffect(() => {
+    if (!capturing) return;
+
+    const handleCapture = (e: KeyboardEvent) => {
+      const binding = getKeyBinding(e);
+      if (!binding) return; // Still holding a modifier
+      e.preventDefault();
+      e.stopPropagation();
+
+      setKeymap((current) =>
+        current[capturing].includes(binding)
+          ? current
+          : { ...current, [capturing]: [...current[capturing], binding] },
+      );
+      setCapturing(null);
+      setStatus("changed");
+    };
+
+    // Capture phase, so nothing else on the page reacts to the key
+    document.addEventListener("keydown", handleCapture, true);
+    return () => document.removeEventListener("keydown", handleCapture, true);
+  }, [capturing]);
+
+  const conflicts = findKeymapConflicts(keymap);
+  const conflictingKeys = new Set(conflicts.map((conflict) => conflict.key));
+
+  const handleRemove = (command: HotkeyCommand, binding: string) => {
+    setKeymap({
+      ...keymap,
+      [command]: keymap[command].filter((key) => key !== binding),
+    });
+    setStatus("changed");
+  };
+
+  const handleReset = () => {
+    setKeymap(DEFAULT_KEYMAP);
+    setCapturing(null);
+    setStatus("changed");
+  };
+
+  const handleSave = () => {
+    if (conflicts.length > 0) return;
+    setStoredKeymap(userId, keymap);
+    setStatus("saved");
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white">
+      <header className="flex items-center justify-between bg-gray-800 p-4">
+        <h1 className="text-2xl font-bold">Hotkeys</h1>
+        <nav className="space-x-4">
+          <Link to="/dashboard" className="text-blue-400 hover:text-blue-300">
+            Trading Dashboard
+          </Link>
+          <Link to="/practice" className="text-blue-400 hover:text-blue-300">
+            Practice Mode
+          </Link>
+        </nav>
+      </header>
+
+      <main className="mx-auto max-w-3xl p-6">
+        <p className="mb-4 text-sm text-gray-400">
+          Bindings follow the physical key, so they stay put whatever your
+          keyboard layout. They are saved in this browser for {userId} and used
+          by the trading popup on the dashboard and in practice mode.
+        </p>
+
+        {conflicts.length > 0 && (
+          <div className="mb-4 rounded border border-red-500 bg-red-900/50 p-3 text-sm text-red-200">
+            <div className="mb-1 font-semibold">
+              Resolve these conflicts before saving:
+            </div>
+            <ul className="space-y-1">
+              {conflicts.map((conflict) => (
+                <li key={conflict.key}>
+                  <span className="font-mono">
+                    {formatKeyBinding(conflict.key)}
+                  </span>{" "}
+                  is bound to{" "}
+                  {[
+                    ...conflict.commands.map(
+                      (command) => HOTKEY_COMMAND_LABELS[command],
+                    ),
+                    ...(conflict.reserved
+                      ? [`${conflict.reserved} (dashboard)`]
+                      : []),
+                  ].join(" and ")}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="rounded-lg bg-gray-800">
+          {HOTKEY_COMMANDS.map((command) => (
+            <div
+              key={command}
+              className="flex items-center justify-between border-b border-gray-700 px-4 py-2 last:border-b-0"
+            >
+              <span className="text-sm">{HOTKEY_COMMAND_LABELS[command]}</span>
+              <div className="flex flex-wrap items-center justify-end gap-2">
+                {keymap[command].map((binding) => (
+                  <span
+                    key={binding}
+                    className={`flex items-center rounded px-2 py-1 font-mono text-xs ${
+                      conflictingKeys.has(binding)
+                        ? "bg-red-700 text-white"
+                        : "bg-gray-700 text-gray-200"
+                    }`}
+                  >
+                    {formatKeyBinding(binding)}
+                    <button
+                      onClick={() => handleRemove(command, binding)}
+                      title="Remove binding"
+                      className="ml-2 text-gray-400 hover:text-white"
+                    >
+                      ×
+                    </button>
+                  </span>
+                ))}
+                {keymap[command].length === 0 && (
+                  <span className="text-xs text-gray-500">unbound</span>
+                )}
+                <button
+                  onClick={() =>
+                    setCapturing(capturing === command ? null : command)
+                  }
+                  className={`rounded px-2 py-1 text-xs ${
+                    capturing === command
+                      ? "bg-yellow-600 text-white"
+                      : "bg-blue-600 text-white hover:bg-blue-700"
+                  }`}
+                >
+                  {capturing === command ? "Press a key… (cancel)" : "Add key"}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-4 flex items-center space-x-3">
+          <button
+            onClick={handleSave}
+            disabled={conflicts.length > 0 || status !== "changed"}
+            className="rounded bg-green-600 px-4 py-2 text-sm font-semibold hover:bg-green-700 disabled:opacity-50"
+          >
+            Save
+          </button>
+          <button
+            onClick={handleReset}
+            className="rounded bg-gray-600 px-4 py-2 text-sm hover:bg-gray-500"
+          >
+            Reset to defaults
+          </button>
+          {status === "saved" && (
+            <span className="text-sm text-green-400">Saved</span>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
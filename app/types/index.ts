@@ -6,6 +6,17 @@ export interface TradingMessage {
   content?: string;
   tickers: string[];
   timestamp?: string;
+  seq?: number;
+  replayed?: boolean;
+  stale?: boolean;
+  seenCount?: number;
+}
+
+export interface TradingMessageUpdate {
+  id: string;
+  seq?: number;
+  seenCount: number;
+  lastSeenAt: string;
 }
 
 export interface TradingLog {
@@ -18,6 +29,78 @@ export interface TradingLog {
   success: boolean;
   error?: string;
   messageId?: string;
+  clientOrderId?: string;
+  sender?: string;
+  name?: string;
+  // Last traded price when the order filled, if a price feed had one
+  price?: number;
+  orderType?: OrderType;
+  limitPrice?: number;
+  stopPrice?: number;
+  // Simulated by the paper engine; never reached a backend
+  paper?: boolean;
+  // Trading account the order was routed to
+  account?: string;
+}
+
+export interface PriceTick {
+  ticker: string;
+  price: number;
+  timestamp: string;
+}
+
+// Net holding in one ticker: positive is long, negative is short
+export interface Position {
+  ticker: string;
+  shares: number;
+  bought: number;
+  sold: number;
+  trades: number;
+  // Average cost of the open shares; null until a fill with a known price
+  avgPrice: number | null;
+  realizedPnl: number;
+  updatedAt: string;
+}
+
+export type TradingHistorySortField = "timestamp" | "ticker" | "shares";
+
+export interface TradingHistoryQuery {
+  userId?: string;
+  startDate?: string;
+  endDate?: string;
+  ticker?: string;
+  action?: "buy" | "sell";
+  messageId?: string;
+  sender?: string;
+  success?: boolean;
+  paper?: boolean;
+  account?: string;
+  sortBy?: TradingHistorySortField;
+  order?: "asc" | "desc";
+  limit?: number;
+  // Opaque value from a previous page's nextCursor
+  cursor?: string;
+}
+
+export interface TradingHistoryPage {
+  logs: TradingLog[];
+  nextCursor: string | null;
+  total: number;
+}
+
+// Simulated cash for a user's paper trading. Paper positions are kept like
+// live ones, separately.
+export interface PaperAccount {
+  startingCash: number;
+  cash: number;
+  updatedAt: string;
+}
+
+// A trading account as the dashboard sees it; routing and limits stay on
+// the server
+export interface TradingAccountSummary {
+  id: string;
+  name: string;
 }
 
 export interface TestCase {
@@ -35,6 +118,10 @@ export interface ExpectedAction {
   timing?: number;
 }
 
+export type OrderType = "market" | "limit" | "stop" | "marketable_limit";
+
+export type TimeInForce = "day" | "gtc" | "ioc" | "fok";
+
 export interface TradingAction {
   action: "buy" | "sell";
   ticker: string;
@@ -45,6 +132,129 @@ export interface TradingAction {
   timingMs?: number;
   sender?: string;
   name?: string;
+  clientOrderId?: string;
+  // Market when omitted
+  orderType?: OrderType;
+  limitPrice?: number;
+  stopPrice?: number;
+  timeInForce?: TimeInForce;
+  // Percent away from the last price, used to work out the limit or stop
+  // price when it isn't given. Positive is more aggressive: above the last
+  // price for buys, below it for sells.
+  offsetPercent?: number;
+  // Take-profit and stop-loss exits placed once the order is acknowledged
+  bracket?: BracketSettings;
+  // Trading account to route to; the user's first account when omitted
+  account?: string;
+}
+
+export interface BracketSettings {
+  // Percent above (long) or below (short) the entry price
+  takeProfitPercent?: number;
+  // Percent below (long) or above (short) the entry price
+  stopLossPercent?: number;
+}
+
+export type BracketLegStatus =
+  | "pending"
+  | "working"
+  | "filled"
+  | "canceled"
+  | "rejected";
+
+export interface BracketLeg {
+  clientOrderId: string;
+  kind: "take_profit" | "stop_loss";
+  orderType: OrderType;
+  price: number;
+  status: BracketLegStatus;
+  fillPrice?: number;
+  error?: string;
+}
+
+// Exit orders linked to one entry order. The legs are one-cancels-other:
+// once either fills, the other is canceled.
+export interface Bracket {
+  parentOrderId: string;
+  userId: string;
+  ticker: string;
+  // Side of the exit orders, the opposite of the entry
+  action: "buy" | "sell";
+  shares: number;
+  entryPrice: number;
+  legs: BracketLeg[];
+  status: "active" | "closed";
+  createdAt: string;
+  updatedAt: string;
+  messageId?: string;
+  sender?: string;
+  name?: string;
+  paper?: boolean;
+  account?: string;
+}
+
+export interface TradingOrderResult {
+  orderNumber: number;
+  clientOrderId: string;
+  status: OrderStatus;
+  error?: string;
+  action: "buy" | "sell";
+  ticker: string;
+  shares: number;
+}
+
+export interface TradingResponse {
+  success: boolean;
+  message: string;
+  status?: "executed" | "failed" | "invalid" | "risk_rejected" | "halted";
+  error?: string;
+  action?: "buy" | "sell";
+  ticker?: string;
+  shares?: number;
+  quantity?: number;
+  timestamp?: string;
+  messageId?: string;
+  clientOrderId?: string;
+  orders?: TradingOrderResult[];
+  replayed?: boolean;
+}
+
+export type OrderStatus =
+  | "queued"
+  | "sent"
+  // Acknowledged and resting at the backend until it fills or is canceled
+  | "working"
+  // Filled
+  | "acked"
+  | "rejected"
+  | "expired"
+  | "canceled";
+
+export interface OrderStatusUpdate {
+  clientOrderId: string;
+  status: OrderStatus;
+  action: "buy" | "sell";
+  ticker: string;
+  shares: number;
+  attempts: number;
+  createdAt: string;
+  updatedAt: string;
+  messageId?: string;
+  error?: string;
+  orderType?: OrderType;
+  limitPrice?: number;
+  stopPrice?: number;
+  paper?: boolean;
+  // Shares filled so far and their average price
+  filledShares?: number;
+  fillPrice?: number;
+}
+
+export interface TradingHaltState {
+  halted: boolean;
+  reason?: string;
+  updatedBy: string;
+  updatedAt: string;
 }
 
 export interface NotificationData {
@@ -0,0 +1,120 @@
+import type {
+  Bracket,
+  OrderStatusUpdate,
+  PaperAccount,
+  Position,
+  PriceTick,
+  TradingAccountSummary,
+  TradingAction,
+  TradingHaltState,
+  TradingMessage,
+  TradingMessageUpdate,
+  TradingResponse,
+} from "./index";
+
+export interface ConnectionSuccess {
+  message: string;
+  userId: string;
+  timestamp: string;
+  lastSeq: number;
+  // Orders on this connection go to the paper engine
+  paper: boolean;
+  // The user isn't allowed to trade live
+  paperOnly: boolean;
+  // Accounts the user can route to, the default first
+  accounts: TradingAccountSummary[];
+}
+
+export interface MessageError {
+  error: string;
+  message?: string;
+  details?: string;
+}
+
+export interface PayloadIssue {
+  path: string;
+  message: string;
+}
+
+// Sent when an inbound event's payload doesn't match its schema
+export interface PayloadError {
+  event: string;
+  error: string;
+  issues: PayloadIssue[];
+}
+
+// Cancels the order and anything derived from it: the per-quantity orders
+// and bracket legs whose ids extend it
+export interface CancelOrderRequest {
+  clientOrderId: string;
+}
+
+// Every open order in these tickers, or every open order when omitted
+export interface CancelOrdersRequest {
+  tickers?: string[];
+}
+
+export interface ReplaceOrderRequest {
+  clientOrderId: string;
+  shares?: number;
+  limitPrice?: number;
+  stopPrice?: number;
+}
+
+export interface OrderRequestResult {
+  request: "cancel_order" | "cancel_orders" | "replace_order";
+  success: boolean;
+  message: string;
+  clientOrderId?: string;
+  canceled?: number;
+}
+
+export interface TradingHaltRequest {
+  halted: boolean;
+  reason?: string;
+}
+
+export interface SocketAuth {
+  token: string;
+  // Last message sequence the client saw, for replays on reconnect
+  lastSeq?: number | null;
+  // Trade on the paper engine for this session
+  paper?: boolean;
+}
+
+export interface ServerToClientEvents {
+  connection_success: (data: ConnectionSuccess) => void;
+  trading_message: (message: TradingMessage) => void;
+  trading_message_update: (update: TradingMessageUpdate) => void;
+  message_error: (error: MessageError) => void;
+  trading_response: (response: TradingResponse) => void;
+  order_status: (update: OrderStatusUpdate) => void;
+  outbox_snapshot: (orders: OrderStatusUpdate[]) => void;
+  trading_halt: (state: TradingHaltState) => void;
+  payload_error: (error: PayloadError) => void;
+  position_update: (position: Position) => void;
+  positions_snapshot: (positions: Position[]) => void;
+  price_update: (tick: PriceTick) => void;
+  prices_snapshot: (ticks: PriceTick[]) => void;
+  bracket_update: (bracket: Bracket) => void;
+  brackets_snapshot: (brackets: Bracket[]) => void;
+  order_request_result: (result: OrderRequestResult) => void;
+  paper_account: (account: PaperAccount) => void;
+}
+
+export interface ClientToServerEvents {
+  trading_action: (action: TradingAction) => void;
+  send_trading_message: (message: TradingMessage) => void;
+  set_trading_halt: (request: TradingHaltRequest) => void;
+  cancel_order: (request: CancelOrderRequest) => void;
+  cancel_orders: (request: CancelOrdersRequest) => void;
+  replace_order: (request: ReplaceOrderRequest) => void;
+}
+
+// Single server, so no inter-server events
+export type InterServerEvents = Record<string, never>;
+
+export interface SocketData {
+  userId: string;
+  paper: boolean;
+}
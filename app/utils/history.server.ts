@@ -0,0 +1,177 @@
+import type {
+  TradingHistoryQuery,
+  TradingHistorySortField,
+  TradingLog,
+} from "~/types";
+
+const SORT_FIELDS: TradingHistorySortField[] = [
+  "timestamp",
+  "ticker",
+  "shares",
+];
+
+/**
+ * Reads history filters from a request's search params. Returns an error
+ * message instead when a parameter has an unusable value.
+ */
+export function parseHistoryQuery(
+  searchParams: URLSearchParams,
+): TradingHistoryQuery | string {
+  const query: TradingHistoryQuery = {};
+
+  for (const key of [
+    "startDate",
+    "endDate",
+    "ticker",
+    "messageId",
+    "sender",
+    "account",
+    "cursor",
+  ] as const) {
+    const value = searchParams.get(key)?.trim();
+    if (value) query[key] = value;
+  }
+
+  for (const key of ["startDate", "endDate"] as const) {
+    if (query[key] && isNaN(new Date(query[key]!).getTime())) {
+      return `${key} must be a date`;
+    }
+  }
+
+  const action = searchParams.get("action");
+  if (action) {
+    if (action !== "buy" && action !== "sell") {
+      return "action must be buy or sell";
+    }
+    query.action = action;
+  }
+
+  for (const key of ["success", "paper"] as const) {
+    const value = searchParams.get(key);
+    if (value) {
+      if (value !== "true" && value !== "false") {
+        return `${key} must be true or false`;
+      }
+      query[key] = value === "true";
+    }
+  }
+
+  const sortBy = searchParams.get("sortBy");
+  if (sortBy) {
+    if (!SORT_FIELDS.includes(sortBy as TradingHistorySortField)) {
+      return `sortBy must be one of: ${SORT_FIELDS.join(", ")}`;
+    }
+    query.sortBy = sortBy as TradingHistorySortField;
+  }
+
+  const order = searchParams.get("order");
+  if (order) {
+    if (order !== "asc" && order !== "desc") {
+      return "order must be asc or desc";
+    }
+    query.order = order;
+  }
+
+  const limit = searchParams.get("limit");
+  if (limit) {
+    const parsed = parseInt(limit, 10);
+    if (isNaN(parsed) || parsed <= 0) {
+      return "limit must be a positive number";
+    }
+    query.limit = parsed;
+  }
+
+  return query;
+}
+
+export type HistoryExportFormat = "csv" | "jsonl" | "blotter";
+
+const CSV_COLUMNS: (keyof TradingLog)[] = [
+  "timestamp",
+  "userId",
+  "account",
+  "action",
+  "ticker",
+  "shares",
+  "quantity",
+  "success",
+  "error",
+  "messageId",
+  "clientOrderId",
+  "sender",
+  "name",
+];
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: unknown[][]): string {
+  return rows.map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+// One row per order in the shape broker statements use, for reconciliation
+function toBlotter(logs: TradingLog[]): string {
+  return toCsv([
+    [
+      "Date",
+      "Time",
+      "Account",
+      "Side",
+      "Symbol",
+      "Qty",
+      "Order ID",
+      "Message ID",
+      "Sender",
+      "Status",
+      "Error",
+    ],
+    ...logs.map((log) => {
+      const [date, time] = log.timestamp.split("T");
+      return [
+        date,
+        time?.replace("Z", ""),
+        log.account,
+        log.action.toUpperCase(),
+        log.ticker.toUpperCase(),
+        log.shares * log.quantity,
+        log.clientOrderId,
+        log.messageId,
+        log.sender,
+        log.success ? "OK" : "FAILED",
+        log.error,
+      ];
+    }),
+  ]);
+}
+
+export function formatHistoryExport(
+  logs: TradingLog[],
+  format: HistoryExportFormat,
+): { body: string; contentType: string; extension: string } {
+  switch (format) {
+    case "jsonl":
+      return {
+        body: logs.map((log) => JSON.stringify(log) + "\n").join(""),
+        contentType: "application/x-ndjson",
+        extension: "jsonl",
+      };
+    case "blotter":
+      return {
+        body: toBlotter(logs),
+        contentType: "text/csv",
+        extension: "csv",
+      };
+    default:
+      return {
+        body: toCsv([
+          CSV_COLUMNS,
+          ...logs.map((log) => CSV_COLUMNS.map((column) => log[column])),
+        ]),
+        contentType: "text/csv",
+        extension: "csv",
+      };
+  }
+}
@@ -0,0 +1,170 @@
+import { describe, expect, it } from "vitest";
+import {
+  CLOSE_COOLDOWN_MS,
+  createInitialHotkeyState,
+  EDITED_BUFFER_MS,
+  NUMBER_BUFFER_MS,
+  reduceHotkeys,
+  TRADE_BURST_MS,
+  type HotkeyEffect,
+  type HotkeyState,
+} from "./hotkeys";
+import type { HotkeyCommand } from "./keymap";
+
+const TOTAL_TICKERS = 15;
+
+// Feeds keypresses through the reducer, collecting every effect
+function press(
+  keys: [HotkeyCommand, number][],
+  state: HotkeyState = createInitialHotkeyState(),
+) {
+  const effects: HotkeyEffect[] = [];
+  for (const [command, now] of keys) {
+    const next = reduceHotkeys(state, {
+      type: "KEY",
+      command,
+      totalTickers: TOTAL_TICKERS,
+      now,
+    });
+    state = next.state;
+    effects.push(...next.effects);
+  }
+  return { state, effects };
+}
+
+function tick(state: HotkeyState, now: number) {
+  return reduceHotkeys(state, { type: "TICK", now });
+}
+
+describe("trade bursts", () => {
+  it("adds up presses and sends them once the burst is over", () => {
+    const { state, effects } = press([
+      ["buy", 0],
+      ["buy", 20],
+      ["buy", 40],
+    ]);
+    expect(effects).toEqual([]);
+
+    expect(tick(state, 40 + TRADE_BURST_MS - 1).effects).toEqual([]);
+
+    const flushed = tick(state, 40 + TRADE_BURST_MS);
+    expect(flushed.effects).toEqual([{ type: "buy", quantity: 3 }]);
+    expect(flushed.state.buyCount).toBe(0);
+    expect(flushed.state.timers.trade).toBeUndefined();
+  });
+
+  it("reports the press count as the quantity, apart from the share size", () => {
+    const { state, effects } = press([
+      ["changeShares", 0],
+      ["digit2", 100],
+      ["digit5", 200],
+      ["confirm", 300],
+      ["buy", 400],
+      ["buy", 420],
+    ]);
+    expect(effects).toEqual([{ type: "setShares", shares: 25 }]);
+
+    // Shares come from the popup's size; the press count never stands in for it
+    expect(tick(state, 420 + TRADE_BURST_MS).effects).toEqual([
+      { type: "buy", quantity: 2 },
+    ]);
+  });
+
+  it("drops the other side's presses when switching mid-burst", () => {
+    const { state } = press([
+      ["buy", 0],
+      ["buy", 20],
+      ["sell", 40],
+    ]);
+
+    expect(tick(state, 40 + TRADE_BURST_MS).effects).toEqual([
+      { type: "sell", quantity: 1 },
+    ]);
+  });
+});
+
+describe("ticker digits", () => {
+  it("extends the number while the ticker exists", () => {
+    const { state, effects } = press([
+      ["digit1", 0],
+      ["digit2", 100],
+    ]);
+
+    expect(effects).toEqual([
+      { type: "selectTicker", ticker: 1 },
+      { type: "selectTicker", ticker: 12 },
+    ]);
+    expect(state.numberBuffer).toBe("12");
+  });
+
+  it("falls back to the last digit when the number doesn't exist", () => {
+    const { state, effects } = press([
+      ["digit3", 0],
+      ["digit7", 100],
+    ]);
+
+    expect(effects).toEqual([
+      { type: "selectTicker", ticker: 3 },
+      { type: "selectTicker", ticker: 7 },
+    ]);
+    expect(state.numberBuffer).toBe("7");
+  });
+
+  it("keeps the number open longer after a backspace", () => {
+    const { state } = press([
+      ["digit1", 0],
+      ["digit2", 100],
+      ["close", 200],
+    ]);
+    expect(state.numberBuffer).toBe("1");
+
+    const afterUsualWindow = tick(state, 100 + NUMBER_BUFFER_MS);
+    expect(afterUsualWindow.state.numberBuffer).toBe("1");
+
+    const afterEdit = tick(state, 200 + EDITED_BUFFER_MS);
+    expect(afterEdit.state.numberBuffer).toBe("");
+  });
+});
+
+describe("share changes", () => {
+  it("stays in share-change mode when confirmed with nothing typed", () => {
+    const { state, effects } = press([
+      ["changeShares", 0],
+      ["confirm", 100],
+    ]);
+
+    expect(effects).toEqual([]);
+    expect(state.isChangingShares).toBe(true);
+  });
+
+  it("sets the typed share count on confirm", () => {
+    const { state, effects } = press([
+      ["changeShares", 0],
+      ["digit2", 100],
+      ["digit5", 200],
+      ["confirm", 300],
+    ]);
+
+    expect(effects).toEqual([{ type: "setShares", shares: 25 }]);
+    expect(state.isChangingShares).toBe(false);
+    expect(state.shareChangeBuffer).toBe("");
+  });
+});
+
+describe("closing", () => {
+  it("ignores keys until the cooldown is over", () => {
+    const closed = press([["close", 0]]);
+    expect(closed.effects).toEqual([{ type: "close" }]);
+    expect(closed.state.disabled).toBe(true);
+
+    const ignored = press([["buy", CLOSE_COOLDOWN_MS - 1]], closed.state);
+    expect(ignored.state).toBe(closed.state);
+    expect(ignored.effects).toEqual([]);
+
+    const reopened = tick(closed.state, CLOSE_COOLDOWN_MS);
+    expect(reopened.state.disabled).toBe(false);
+    expect(
+      press([["buy", CLOSE_COOLDOWN_MS]], reopened.state).state.buyCount,
+    ).toBe(1);
+  });
+});
@@ -1,3 +1,16 @@
+import { getCommandDigit, type HotkeyCommand } from "./keymap";
+
+// Presses of the same side within this window add up to one order's quantity
+export const TRADE_BURST_MS = 100;
+// A typed ticker number can be extended for this long
+export const NUMBER_BUFFER_MS = 1500;
+// ...and for longer after a backspace, while it's being corrected
+export const EDITED_BUFFER_MS = 3000;
+// Keys are ignored this long after closing, so a held key can't leak through
+export const CLOSE_COOLDOWN_MS = 500;
+
+export type HotkeyTimer = "trade" | "numberBuffer" | "disabled";
+
 export interface HotkeyState {
   buyCount: number;
   sellCount: number;
@@ -5,7 +18,33 @@ export interface HotkeyState {
   isChangingShares: boolean;
   shareChangeBuffer: string;
   disabled: boolean;
-  numberBufferTimeout?: NodeJS.Timeout;
+  // When each running timer is due, in epoch ms
+  timers: Partial<Record<HotkeyTimer, number>>;
+}
+
+export type HotkeyEvent =
+  | { type: "KEY"; command: HotkeyCommand; totalTickers: number; now: number }
+  // Time has moved on; every timer due by `now` fires
+  | { type: "TICK"; now: number };
+
+// What the popup should do as a result; the reducer itself does nothing
+export type HotkeyEffect =
+  | { type: "buy" | "sell"; quantity: number }
+  | { type: "selectTicker"; ticker: number }
+  | { type: "setShares"; shares: number }
+  | {
+      type:
+        | "close"
+        | "toggleSizing"
+        | "cycleOrderType"
+        | "cycleTimeInForce"
+        | "cancelLast"
+        | "cancelAll";
+    };
+
+export interface HotkeyTransition {
+  state: HotkeyState;
+  effects: HotkeyEffect[];
 }
 
 export function createInitialHotkeyState(): HotkeyState {
@@ -16,240 +55,271 @@ export function createInitialHotkeyState(): HotkeyState {
     isChangingShares: false,
     shareChangeBuffer: "",
     disabled: false,
+    timers: {},
   };
 }
 
-export function handleKeyPress(
-  key: string,
+function setTimer(
   state: HotkeyState,
+  timer: HotkeyTimer,
+  dueAt?: number,
+): HotkeyState {
+  const timers = { ...state.timers };
+  if (dueAt === undefined) {
+    delete timers[timer];
+  } else {
+    timers[timer] = dueAt;
+  }
+  return { ...state, timers };
+}
+
+// A ticker number that stays open for extending until `now + ms`
+function setNumberBuffer(
+  state: HotkeyState,
+  numberBuffer: string,
+  now: number,
+  ms = NUMBER_BUFFER_MS,
+): HotkeyState {
+  return setTimer(
+    { ...state, numberBuffer },
+    "numberBuffer",
+    numberBuffer ? now + ms : undefined,
+  );
+}
+
+// Sends the burst being counted, if any
+function flushTrade(state: HotkeyState, effects: HotkeyEffect[]): HotkeyState {
+  if (state.buyCount > 0) {
+    effects.push({ type: "buy", quantity: state.buyCount });
+  } else if (state.sellCount > 0) {
+    effects.push({ type: "sell", quantity: state.sellCount });
+  }
+  return setTimer({ ...state, buyCount: 0, sellCount: 0 }, "trade");
+}
+
+function pressTrade(
+  state: HotkeyState,
+  side: "buy" | "sell",
+  now: number,
+): HotkeyState {
+  // Switching sides mid-burst drops the other side's presses
+  const next = {
+    ...state,
+    buyCount: side === "buy" ? state.buyCount + 1 : 0,
+    sellCount: side === "sell" ? state.sellCount + 1 : 0,
+  };
+  return setTimer(
+    setNumberBuffer(next, "", now),
+    "trade",
+    now + TRADE_BURST_MS,
+  );
+}
+
+/**
+ * Works out which ticker a digit picks given what's already been typed:
+ * extend the buffer while the number exists ("1" then "2" is ticker 12 of
+ * 15), otherwise fall back to the longest suffix that does ("3" then "7" of
+ * 15 is ticker 7), otherwise start over. Returns the new buffer, or "" when
+ * nothing matches.
+ */
+export function selectTickerDigits(
+  buffer: string,
+  digit: string,
+  totalTickers: number,
+): string {
+  const inRange = (value: string) => {
+    const ticker = parseInt(value);
+    return ticker >= 1 && ticker <= totalTickers;
+  };
+
+  for (let i = 0; i <= buffer.length; i++) {
+    const candidate = buffer.substring(i) + digit;
+    if (inRange(candidate)) return candidate;
+  }
+  return "";
+}
+
+function pressDigit(
+  state: HotkeyState,
+  digit: string,
   totalTickers: number,
-  onBuy: (quantity: number) => void,
-  onSell: (quantity: number) => void,
-  onTickerChange: (ticker: number) => void,
-  onShareChange: (shares: number) => void,
-  onDisableTemporary: () => void,
+  now: number,
+  effects: HotkeyEffect[],
 ): HotkeyState {
-  if (state.disabled) {
-    return state;
+  if (state.isChangingShares) {
+    return { ...state, shareChangeBuffer: state.shareChangeBuffer + digit };
   }
 
-  const newState = { ...state };
-
-  switch (key.toLowerCase()) {
-    case "b":
-      newState.buyCount++;
-      newState.sellCount = 0;
-      // Clear number buffer when trading
-      newState.numberBuffer = "";
-      if (newState.numberBufferTimeout) {
-        clearTimeout(newState.numberBufferTimeout);
-        newState.numberBufferTimeout = undefined;
-      }
-
-      setTimeout(() => {
-        if (newState.buyCount > 0) {
-          onBuy(newState.buyCount);
-          newState.buyCount = 0;
-        }
-      }, 100);
-      break;
+  const numberBuffer = selectTickerDigits(
+    state.numberBuffer,
+    digit,
+    totalTickers,
+  );
+  if (numberBuffer) {
+    effects.push({ type: "selectTicker", ticker: parseInt(numberBuffer) });
+  }
+  return setNumberBuffer(state, numberBuffer, now);
+}
 
-    case "s":
-      newState.sellCount++;
-      newState.buyCount = 0;
-      newState.numberBuffer = "";
-      if (newState.numberBufferTimeout) {
-        clearTimeout(newState.numberBufferTimeout);
-        newState.numberBufferTimeout = undefined;
-      }
-
-      setTimeout(() => {
-        if (newState.sellCount > 0) {
-          onSell(newState.sellCount);
-          newState.sellCount = 0;
-        }
-      }, 100);
+function pressConfirm(
+  state: HotkeyState,
+  totalTickers: number,
+  effects: HotkeyEffect[],
+): HotkeyState {
+  if (state.isChangingShares) {
+    // Nothing typed yet: stay in share-change mode
+    if (!state.shareChangeBuffer) return state;
+
+    const shares = parseInt(state.shareChangeBuffer);
+    if (!isNaN(shares) && shares > 0) {
+      effects.push({ type: "setShares", shares });
+    }
+    return { ...state, isChangingShares: false, shareChangeBuffer: "" };
+  }
+
+  if (state.numberBuffer) {
+    const ticker = parseInt(state.numberBuffer);
+    if (ticker >= 1 && ticker <= totalTickers) {
+      effects.push({ type: "selectTicker", ticker });
+    }
+    return setTimer({ ...state, numberBuffer: "" }, "numberBuffer");
+  }
+  return state;
+}
+
+// Backspace through whatever's being typed, then close the popup
+function pressClose(
+  state: HotkeyState,
+  now: number,
+  effects: HotkeyEffect[],
+): HotkeyState {
+  if (state.isChangingShares) {
+    return {
+      ...state,
+      shareChangeBuffer: state.shareChangeBuffer.slice(0, -1),
+    };
+  }
+  if (state.numberBuffer) {
+    return setNumberBuffer(
+      state,
+      state.numberBuffer.slice(0, -1),
+      now,
+      EDITED_BUFFER_MS,
+    );
+  }
+
+  effects.push({ type: "close" });
+  return setTimer(
+    { ...state, disabled: true },
+    "disabled",
+    now + CLOSE_COOLDOWN_MS,
+  );
+}
+
+function reduceKey(
+  state: HotkeyState,
+  command: HotkeyCommand,
+  totalTickers: number,
+  now: number,
+): HotkeyTransition {
+  if (state.disabled) return { state, effects: [] };
+
+  const effects: HotkeyEffect[] = [];
+
+  if (command === "buy" || command === "sell") {
+    // Share entry is digits only
+    if (state.isChangingShares) return { state, effects };
+    return { state: pressTrade(state, command, now), effects };
+  }
+
+  // Any other key ends a burst early rather than losing it
+  let next = flushTrade(state, effects);
+
+  switch (command) {
+    case "changeShares":
+      next = setNumberBuffer(
+        { ...next, isChangingShares: true, shareChangeBuffer: "" },
+        "",
+        now,
+      );
       break;
 
-    case "c":
-      newState.isChangingShares = true;
-      newState.shareChangeBuffer = "";
-      newState.buyCount = 0;
-      newState.sellCount = 0;
-      newState.numberBuffer = "";
-      if (newState.numberBufferTimeout) {
-        clearTimeout(newState.numberBufferTimeout);
-        newState.numberBufferTimeout = undefined;
-      }
+    case "confirm":
+      next = pressConfirm(next, totalTickers, effects);
       break;
 
-    case "enter":
-      if (newState.isChangingShares && newState.shareChangeBuffer) {
-        const shares = parseInt(newState.shareChangeBuffer);
-        if (!isNaN(shares) && shares > 0) {
-          onShareChange(shares);
-        }
-        newState.isChangingShares = false;
-        newState.shareChangeBuffer = "";
-      } else if (newState.numberBuffer) {
-        const tickerNum = parseInt(newState.numberBuffer);
-        if (tickerNum >= 1 && tickerNum <= totalTickers) {
-          onTickerChange(tickerNum);
-        }
-        newState.numberBuffer = "";
-        if (newState.numberBufferTimeout) {
-          clearTimeout(newState.numberBufferTimeout);
-          newState.numberBufferTimeout = undefined;
-        }
-      }
+    case "close":
+      next = pressClose(next, now, effects);
       break;
 
-    case "backspace":
-    case "escape":
-      if (newState.isChangingShares) {
-        newState.shareChangeBuffer = newState.shareChangeBuffer.slice(0, -1);
-      } else if (newState.numberBuffer) {
-        // Remove last digit from number buffer
-        newState.numberBuffer = newState.numberBuffer.slice(0, -1);
-        if (newState.numberBufferTimeout) {
-          clearTimeout(newState.numberBufferTimeout);
-          newState.numberBufferTimeout = undefined;
-        }
-
-        // Set new timeout if buffer still has content
-        if (newState.numberBuffer) {
-          newState.numberBufferTimeout = setTimeout(() => {
-            newState.numberBuffer = "";
-            newState.numberBufferTimeout = undefined;
-          }, 3000);
-        }
-      } else {
-        // Close popup and disable hotkeys temporarily
-        onDisableTemporary();
-        newState.disabled = true;
-        setTimeout(() => {
-          newState.disabled = false;
-        }, 500);
-      }
+    case "toggleSizing":
+    case "cycleOrderType":
+    case "cycleTimeInForce":
+    case "cancelLast":
+    case "cancelAll":
+      // Order-setting and cancel keys wait until share entry is done
+      if (!next.isChangingShares) effects.push({ type: command });
       break;
 
-    default:
-      if (/\d/.test(key)) {
-        if (newState.isChangingShares) {
-          newState.shareChangeBuffer += key;
-        } else {
-          if (newState.numberBufferTimeout) {
-            clearTimeout(newState.numberBufferTimeout);
-          }
-
-          const singleDigit = parseInt(key);
-          if (singleDigit >= 1 && singleDigit <= totalTickers) {
-            // Check if we should extend the buffer or select immediately
-            const extendedBuffer = newState.numberBuffer + key;
-            const extendedNum = parseInt(extendedBuffer);
-
-            if (extendedNum <= totalTickers && newState.numberBuffer !== "") {
-              newState.numberBuffer = extendedBuffer;
-              onTickerChange(extendedNum);
-
-              // Set timeout to clear buffer after 1.5 seconds
-              newState.numberBufferTimeout = setTimeout(() => {
-                newState.numberBuffer = "";
-                newState.numberBufferTimeout = undefined;
-              }, 1500);
-            } else {
-              if (newState.numberBuffer !== "") {
-                processCascadingSelection(
-                  newState,
-                  key,
-                  totalTickers,
-                  onTickerChange,
-                );
-              } else {
-                newState.numberBuffer = key;
-                onTickerChange(singleDigit);
-
-                newState.numberBufferTimeout = setTimeout(() => {
-                  newState.numberBuffer = "";
-                  newState.numberBufferTimeout = undefined;
-                }, 1500);
-              }
-            }
-          } else {
-            if (newState.numberBuffer !== "") {
-              processCascadingSelection(
-                newState,
-                key,
-                totalTickers,
-                onTickerChange,
-              );
-            } else {
-              newState.numberBuffer = "";
-            }
-          }
-        }
-
-        // Reset trading counters when typing numbers
-        newState.buyCount = 0;
-        newState.sellCount = 0;
-      }
+    default: {
+      const digit = getCommandDigit(command);
+      if (digit) next = pressDigit(next, digit, totalTickers, now, effects);
       break;
+    }
   }
 
-  return newState;
+  return { state: next, effects };
 }
 
-function processCascadingSelection(
-  state: HotkeyState,
-  newDigit: string,
-  totalTickers: number,
-  onTickerChange: (ticker: number) => void,
-) {
-  const currentBuffer = state.numberBuffer;
-  const fullNumber = currentBuffer + newDigit;
-
-  const fullNum = parseInt(fullNumber);
-  if (fullNum >= 1 && fullNum <= totalTickers) {
-    state.numberBuffer = fullNumber;
-    onTickerChange(fullNum);
-
-    // Set timeout to clear buffer
-    state.numberBufferTimeout = setTimeout(() => {
-      state.numberBuffer = "";
-      state.numberBufferTimeout = undefined;
-    }, 1500);
-    return;
+function reduceTick(state: HotkeyState, now: number): HotkeyTransition {
+  const effects: HotkeyEffect[] = [];
+  const isDue = (timer: HotkeyTimer) => {
+    const dueAt = state.timers[timer];
+    return dueAt !== undefined && dueAt <= now;
+  };
+
+  let next = state;
+  if (isDue("trade")) {
+    next = flushTrade(next, effects);
   }
+  if (isDue("numberBuffer")) {
+    next = setTimer({ ...next, numberBuffer: "" }, "numberBuffer");
+  }
+  if (isDue("disabled")) {
+    next = setTimer({ ...next, disabled: false }, "disabled");
+  }
+  return { state: next, effects };
+}
 
-  // Full number doesn't work, try cascading from left to right
-  for (let i = 1; i <= currentBuffer.length; i++) {
-    const partialOld = currentBuffer.substring(i);
-    const testNumber = partialOld + newDigit;
-    const testNum = parseInt(testNumber);
-
-    if (testNum >= 1 && testNum <= totalTickers) {
-      state.numberBuffer = testNumber;
-      onTickerChange(testNum);
-
-      state.numberBufferTimeout = setTimeout(() => {
-        state.numberBuffer = "";
-        state.numberBufferTimeout = undefined;
-      }, 1500);
-      return;
-    }
+/**
+ * The whole hotkey state machine: takes a keypress or the passage of time
+ * and returns the next state plus the effects to run. Pure, so the same
+ * events always give the same result; timers are deadlines in the state for
+ * `scheduleHotkeyTimers` to turn into TICKs.
+ */
+export function reduceHotkeys(
+  state: HotkeyState,
+  event: HotkeyEvent,
+): HotkeyTransition {
+  switch (event.type) {
+    case "KEY":
+      return reduceKey(state, event.command, event.totalTickers, event.now);
+    case "TICK":
+      return reduceTick(state, event.now);
   }
+}
 
-  const singleDigit = parseInt(newDigit);
-  if (singleDigit >= 1 && singleDigit <= totalTickers) {
-    state.numberBuffer = newDigit;
-    onTickerChange(singleDigit);
+// Calls `onTick` when the state's next timer is due; returns a cancel
+export function scheduleHotkeyTimers(
+  state: HotkeyState,
+  onTick: (now: number) => void,
+): () => void {
+  const deadlines = Object.values(state.timers);
+  if (deadlines.length === 0) return () => {};
 
-    // Set timeout to clear buffer
-    state.numberBufferTimeout = setTimeout(() => {
-      state.numberBuffer = "";
-      state.numberBufferTimeout = undefined;
-    }, 1500);
-  } else {
-    state.numberBuffer = "";
-  }
+  const timeout = setTimeout(
+    () => onTick(Date.now()),
+    Math.max(0, Math.min(...deadlines) - Date.now()),
+  );
+  return () => clearTimeout(timeout);
 }
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_KEYMAP, findKeymapConflicts, resolveCommand } from "./keymap";
+
+describe("findKeymapConflicts", () => {
+  it("has none for the default keymap", () => {
+    expect(findKeymapConflicts(DEFAULT_KEYMAP)).toEqual([]);
+  });
+
+  it("flags the bare key of a reserved Shift+ hotkey", () => {
+    const keymap = { ...DEFAULT_KEYMAP, buy: ["KeyH"] };
+
+    // Shift+H would both halt trading and buy
+    expect(
+      resolveCommand(keymap, {
+        code: "KeyH",
+        shiftKey: true,
+        ctrlKey: false,
+        altKey: false,
+        metaKey: false,
+      }),
+    ).toBe("buy");
+    expect(findKeymapConflicts(keymap)).toEqual([
+      { key: "KeyH", commands: ["buy"], reserved: "Halt all trading" },
+    ]);
+  });
+});
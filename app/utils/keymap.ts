@@ -0,0 +1,203 @@
+// What a hotkey does in the trading popup, independent of which key it's on
+export type HotkeyCommand =
+  | "buy"
+  | "sell"
+  | "changeShares"
+  | "confirm"
+  | "close"
+  | "toggleSizing"
+  | "cycleOrderType"
+  | "cycleTimeInForce"
+  | "cancelLast"
+  | "cancelAll"
+  | "digit1"
+  | "digit2"
+  | "digit3"
+  | "digit4"
+  | "digit5"
+  | "digit6"
+  | "digit7"
+  | "digit8"
+  | "digit9"
+  | "digit0";
+
+/**
+ * Keys bound to each command. Keys are physical (KeyboardEvent.code, e.g.
+ * "KeyB", "F1", "Numpad1") so a binding stays put across layouts, with a
+ * "Shift+" prefix for shifted bindings.
+ */
+export type Keymap = Record<HotkeyCommand, string[]>;
+
+// Settings page order
+export const HOTKEY_COMMANDS: HotkeyCommand[] = [
+  "buy",
+  "sell",
+  "changeShares",
+  "confirm",
+  "close",
+  "toggleSizing",
+  "cycleOrderType",
+  "cycleTimeInForce",
+  "cancelLast",
+  "cancelAll",
+  "digit1",
+  "digit2",
+  "digit3",
+  "digit4",
+  "digit5",
+  "digit6",
+  "digit7",
+  "digit8",
+  "digit9",
+  "digit0",
+];
+
+export const HOTKEY_COMMAND_LABELS: Record<HotkeyCommand, string> = {
+  buy: "Buy",
+  sell: "Sell",
+  changeShares: "Change shares",
+  confirm: "Confirm (shares / ticker)",
+  close: "Back / close",
+  toggleSizing: "Toggle share/dollar sizing",
+  cycleOrderType: "Next order type",
+  cycleTimeInForce: "Next time in force",
+  cancelLast: "Cancel last order",
+  cancelAll: "Cancel all in message",
+  digit1: "Ticker / digit 1",
+  digit2: "Ticker / digit 2",
+  digit3: "Ticker / digit 3",
+  digit4: "Ticker / digit 4",
+  digit5: "Ticker / digit 5",
+  digit6: "Ticker / digit 6",
+  digit7: "Ticker / digit 7",
+  digit8: "Ticker / digit 8",
+  digit9: "Ticker / digit 9",
+  digit0: "Digit 0",
+};
+
+const digitKeys = (digit: number) => [`Digit${digit}`, `Numpad${digit}`];
+
+export const DEFAULT_KEYMAP: Keymap = {
+  buy: ["KeyB"],
+  sell: ["KeyS"],
+  changeShares: ["KeyC"],
+  confirm: ["Enter", "NumpadEnter"],
+  close: ["Backspace", "Escape"],
+  toggleSizing: ["KeyD"],
+  cycleOrderType: ["KeyO"],
+  cycleTimeInForce: ["KeyT"],
+  cancelLast: ["KeyX"],
+  cancelAll: ["Shift+KeyX"],
+  digit1: digitKeys(1),
+  digit2: digitKeys(2),
+  digit3: digitKeys(3),
+  digit4: digitKeys(4),
+  digit5: digitKeys(5),
+  digit6: digitKeys(6),
+  digit7: digitKeys(7),
+  digit8: digitKeys(8),
+  digit9: digitKeys(9),
+  digit0: digitKeys(0),
+};
+
+// Dashboard-wide hotkeys a popup binding would collide with
+export const RESERVED_KEYS: Record<string, string> = {
+  "Shift+KeyH": "Halt all trading",
+  "Shift+KeyA": "Next account",
+};
+
+const MODIFIER_CODES = [
+  "ShiftLeft",
+  "ShiftRight",
+  "ControlLeft",
+  "ControlRight",
+  "AltLeft",
+  "AltRight",
+  "MetaLeft",
+  "MetaRight",
+];
+
+// The binding a keypress would match, or null for a bare modifier
+export function getKeyBinding(
+  e: Pick<KeyboardEvent, "code" | "shiftKey">,
+): string | null {
+  if (!e.code || MODIFIER_CODES.includes(e.code)) return null;
+  return e.shiftKey ? `Shift+${e.code}` : e.code;
+}
+
+/**
+ * The command a keypress triggers. An exact Shift+ binding wins; otherwise
+ * Shift is ignored, as it always was for the letter hotkeys. Ctrl/Alt/Meta
+ * combinations are left to the browser.
+ */
+export function resolveCommand(
+  keymap: Keymap,
+  e: Pick<
+    KeyboardEvent,
+    "code" | "shiftKey" | "ctrlKey" | "altKey" | "metaKey"
+  >,
+): HotkeyCommand | null {
+  if (e.ctrlKey || e.altKey || e.metaKey) return null;
+
+  const binding = getKeyBinding(e);
+  if (!binding) return null;
+
+  const find = (key: string) =>
+    HOTKEY_COMMANDS.find((command) => keymap[command].includes(key)) || null;
+  return find(binding) || (e.shiftKey ? find(e.code) : null);
+}
+
+// "5" for digit5, null for everything else
+export function getCommandDigit(command: HotkeyCommand): string | null {
+  return command.startsWith("digit") ? command.slice("digit".length) : null;
+}
+
+// e.g. "Shift+X", "F1", "Num 1"
+export function formatKeyBinding(binding: string): string {
+  const shift = binding.startsWith("Shift+");
+  const code = shift ? binding.slice("Shift+".length) : binding;
+  const label = code
+    .replace(/^Key/, "")
+    .replace(/^Digit/, "")
+    .replace(/^Numpad/, "Num ");
+  return shift ? `Shift+${label}` : label;
+}
+
+export function describeCommandKeys(
+  keymap: Keymap,
+  command: HotkeyCommand,
+): string {
+  const keys = keymap[command];
+  return keys.length > 0 ? keys.map(formatKeyBinding).join("/") : "unbound";
+}
+
+// resolveCommand lets Shift+key fall back to a bare key's binding, so the
+// bare key of a reserved Shift+ hotkey collides with it too
+function getReservedAction(key: string): string | undefined {
+  return RESERVED_KEYS[key] ?? RESERVED_KEYS[`Shift+${key}`];
+}
+
+export interface KeymapConflict {
+  key: string;
+  commands: HotkeyCommand[];
+  // Set when the key is one of the dashboard's own hotkeys
+  reserved?: string;
+}
+
+// Keys bound to more than one command, or to a dashboard hotkey
+export function findKeymapConflicts(keymap: Keymap): KeymapConflict[] {
+  const byKey = new Map<string, HotkeyCommand[]>();
+  for (const command of HOTKEY_COMMANDS) {
+    for (const key of keymap[command]) {
+      byKey.set(key, [...(byKey.get(key) || []), command]);
+    }
+  }
+
+  return [...byKey.entries()]
+    .map(([key, commands]) => ({
+      key,
+      commands,
+      reserved: getReservedAction(key),
+    }))
+    .filter(({ commands, reserved }) => commands.length > 1 || reserved);
+}
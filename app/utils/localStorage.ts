@@ -1,5 +1,17 @@
+import { DEFAULT_KEYMAP, type Keymap } from "./keymap";
+import { DEFAULT_ORDER_SETTINGS, type OrderSettings } from "./orderTypes";
+import { DEFAULT_SIZING, type SizingSettings } from "./sizing";
+import type { SizingRule } from "./sizingRules";
+
 const STORAGE_KEYS = {
   SHARE_AMOUNT: "ticker_deck_share_amount",
+  SIZING: "ticker_deck_sizing",
+  SIZING_RULES: "ticker_deck_sizing_rules",
+  ORDER_SETTINGS: "ticker_deck_order_settings",
+  PAPER_MODE: "ticker_deck_paper_mode",
+  ACCOUNT: "ticker_deck_account",
+  // Suffixed with the user id, so people sharing a browser keep their own
+  KEYMAP: "ticker_deck_keymap",
 } as const;
 
 export function getStoredShareAmount(): number {
@@ -23,3 +35,142 @@ export function setStoredShareAmount(amount: number): void {
     console.warn("Failed to write to localStorage:", error);
   }
 }
+
+export function getStoredSizing(): SizingSettings {
+  if (typeof window === "undefined") return DEFAULT_SIZING;
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.SIZING);
+    return stored
+      ? { ...DEFAULT_SIZING, ...JSON.parse(stored) }
+      : DEFAULT_SIZING;
+  } catch (error) {
+    console.warn("Failed to read from localStorage:", error);
+    return DEFAULT_SIZING;
+  }
+}
+
+export function setStoredSizing(sizing: SizingSettings): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.setItem(STORAGE_KEYS.SIZING, JSON.stringify(sizing));
+  } catch (error) {
+    console.warn("Failed to write to localStorage:", error);
+  }
+}
+
+export function getStoredSizingRules(): SizingRule[] {
+  if (typeof window === "undefined") return [];
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.SIZING_RULES);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.warn("Failed to read from localStorage:", error);
+    return [];
+  }
+}
+
+export function setStoredSizingRules(rules: SizingRule[]): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.setItem(STORAGE_KEYS.SIZING_RULES, JSON.stringify(rules));
+  } catch (error) {
+    console.warn("Failed to write to localStorage:", error);
+  }
+}
+
+export function getStoredOrderSettings(): OrderSettings {
+  if (typeof window === "undefined") return DEFAULT_ORDER_SETTINGS;
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.ORDER_SETTINGS);
+    return stored
+      ? { ...DEFAULT_ORDER_SETTINGS, ...JSON.parse(stored) }
+      : DEFAULT_ORDER_SETTINGS;
+  } catch (error) {
+    console.warn("Failed to read from localStorage:", error);
+    return DEFAULT_ORDER_SETTINGS;
+  }
+}
+
+export function setStoredOrderSettings(settings: OrderSettings): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.setItem(STORAGE_KEYS.ORDER_SETTINGS, JSON.stringify(settings));
+  } catch (error) {
+    console.warn("Failed to write to localStorage:", error);
+  }
+}
+
+export function getStoredPaperMode(): boolean {
+  if (typeof window === "undefined") return false; // Default for SSR
+
+  try {
+    return localStorage.getItem(STORAGE_KEYS.PAPER_MODE) === "true";
+  } catch (error) {
+    console.warn("Failed to read from localStorage:", error);
+    return false;
+  }
+}
+
+export function setStoredPaperMode(paper: boolean): void {
+  if (typeof window === "undefined") return; // Skip during SSR
+
+  try {
+    localStorage.setItem(STORAGE_KEYS.PAPER_MODE, String(paper));
+  } catch (error) {
+    console.warn("Failed to write to localStorage:", error);
+  }
+}
+
+export function getStoredAccount(): string | null {
+  if (typeof window === "undefined") return null; // Default for SSR
+
+  try {
+    return localStorage.getItem(STORAGE_KEYS.ACCOUNT);
+  } catch (error) {
+    console.warn("Failed to read from localStorage:", error);
+    return null;
+  }
+}
+
+export function setStoredAccount(accountId: string): void {
+  if (typeof window === "undefined") return; // Skip during SSR
+
+  try {
+    localStorage.setItem(STORAGE_KEYS.ACCOUNT, accountId);
+  } catch (error) {
+    console.warn("Failed to write to localStorage:", error);
+  }
+}
+
+export function getStoredKeymap(userId: string): Keymap {
+  if (typeof window === "undefined") return DEFAULT_KEYMAP;
+
+  try {
+    const stored = localStorage.getItem(`${STORAGE_KEYS.KEYMAP}:${userId}`);
+    return stored
+      ? { ...DEFAULT_KEYMAP, ...JSON.parse(stored) }
+      : DEFAULT_KEYMAP;
+  } catch (error) {
+    console.warn("Failed to read from localStorage:", error);
+    return DEFAULT_KEYMAP;
+  }
+}
+
+export function setStoredKeymap(userId: string, keymap: Keymap): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.setItem(
+      `${STORAGE_KEYS.KEYMAP}:${userId}`,
+      JSON.stringify(keymap),
+    );
+  } catch (error) {
+    console.warn("Failed to write to localStorage:", error);
+  }
+}
@@ -0,0 +1,84 @@
+import type { OrderType, TimeInForce, TradingAction } from "~/types";
+
+export interface OrderSettings {
+  orderType: OrderType;
+  timeInForce: TimeInForce;
+  // Limit/stop distance from the last price; see TradingAction.offsetPercent
+  offsetPercent: number;
+  // Buys get take-profit and stop-loss exits when enabled
+  bracketEnabled: boolean;
+  takeProfitPercent: number;
+  stopLossPercent: number;
+}
+
+// Hotkey cycling order
+export const ORDER_TYPES: OrderType[] = [
+  "market",
+  "marketable_limit",
+  "limit",
+  "stop",
+];
+export const TIME_IN_FORCE: TimeInForce[] = ["day", "ioc", "gtc", "fok"];
+
+export const DEFAULT_ORDER_SETTINGS: OrderSettings = {
+  orderType: "market",
+  timeInForce: "day",
+  offsetPercent: 0.5,
+  bracketEnabled: false,
+  takeProfitPercent: 2,
+  stopLossPercent: 1,
+};
+
+const ORDER_TYPE_LABELS: Record<OrderType, string> = {
+  market: "MKT",
+  limit: "LMT",
+  stop: "STP",
+  marketable_limit: "MKT LMT",
+};
+
+export function cycleValue<T>(values: T[], current: T): T {
+  return values[(values.indexOf(current) + 1) % values.length];
+}
+
+// Short ticket label, e.g. "LMT +0.5% DAY"
+export function describeOrderSettings(settings: OrderSettings): string {
+  const offset =
+    settings.orderType === "market"
+      ? ""
+      : ` ${settings.offsetPercent >= 0 ? "+" : ""}${settings.offsetPercent}%`;
+  return `${ORDER_TYPE_LABELS[settings.orderType]}${offset} ${settings.timeInForce.toUpperCase()}`;
+}
+
+// e.g. "TP +2% / SL -1%"; a leg set to 0 is left out
+export function describeBracket(settings: OrderSettings): string {
+  return [
+    settings.takeProfitPercent > 0 && `TP +${settings.takeProfitPercent}%`,
+    settings.stopLossPercent > 0 && `SL -${settings.stopLossPercent}%`,
+  ]
+    .filter(Boolean)
+    .join(" / ");
+}
+
+// The server works out the actual limit/stop price from its last price, and
+// the bracket prices from the entry
+export function getOrderFields(
+  settings: OrderSettings,
+  action: "buy" | "sell",
+): Pick<
+  TradingAction,
+  "orderType" | "timeInForce" | "offsetPercent" | "bracket"
+> {
+  return {
+    orderType: settings.orderType,
+    timeInForce: settings.timeInForce,
+    offsetPercent:
+      settings.orderType === "market" ? undefined : settings.offsetPercent,
+    bracket:
+      settings.bracketEnabled && action === "buy"
+        ? {
+            takeProfitPercent: settings.takeProfitPercent || undefined,
+            stopLossPercent: settings.stopLossPercent || undefined,
+          }
+        : undefined,
+  };
+}
@@ -0,0 +1,107 @@
+import type { Position, TradingLog } from "~/types";
+
+export type PositionLedger = Record<string, Position>;
+
+/**
+ * Applies one history entry to a ledger and returns the ticker's new
+ * position, or null if the entry didn't execute. Shared by the socket server
+ * and anything that rebuilds positions from history.
+ *
+ * Cost is tracked as an average: adding to a position blends the fill price
+ * in, reducing it realizes P&L against the average, and flipping sides opens
+ * the remainder at the fill price. Fills without a price are taken at the
+ * average so they don't invent P&L.
+ */
+export function applyTrade(
+  ledger: PositionLedger,
+  log: TradingLog,
+): Position | null {
+  if (!log.success) return null;
+
+  const ticker = log.ticker.toUpperCase();
+  const shares = log.shares * log.quantity;
+  const signed = log.action === "buy" ? shares : -shares;
+  const current = ledger[ticker] || {
+    ticker,
+    shares: 0,
+    bought: 0,
+    sold: 0,
+    trades: 0,
+    avgPrice: null,
+    realizedPnl: 0,
+    updatedAt: log.timestamp,
+  };
+
+  const fillPrice = log.price ?? current.avgPrice;
+  const nextShares = current.shares + signed;
+  let avgPrice = current.avgPrice;
+  let realizedPnl = current.realizedPnl;
+
+  if (current.shares === 0 || Math.sign(signed) === Math.sign(current.shares)) {
+    // Opening or adding
+    avgPrice =
+      fillPrice === null
+        ? avgPrice
+        : avgPrice === null || current.shares === 0
+          ? fillPrice
+          : (avgPrice * Math.abs(current.shares) + fillPrice * shares) /
+            Math.abs(nextShares);
+  } else {
+    // Reducing, closing or flipping
+    const closed = Math.min(shares, Math.abs(current.shares));
+    if (avgPrice !== null && fillPrice !== null) {
+      realizedPnl +=
+        (fillPrice - avgPrice) * closed * Math.sign(current.shares);
+    }
+    if (nextShares === 0) {
+      avgPrice = null;
+    } else if (Math.sign(nextShares) !== Math.sign(current.shares)) {
+      avgPrice = fillPrice;
+    }
+  }
+
+  const position: Position = {
+    ...current,
+    shares: nextShares,
+    bought: current.bought + (log.action === "buy" ? shares : 0),
+    sold: current.sold + (log.action === "sell" ? shares : 0),
+    trades: current.trades + 1,
+    avgPrice,
+    realizedPnl,
+    updatedAt: log.timestamp,
+  };
+
+  ledger[ticker] = position;
+  return position;
+}
+
+// Mark-to-market P&L of the open shares, or null without both prices
+export function getUnrealizedPnl(
+  position: Position,
+  lastPrice: number | undefined,
+): number | null {
+  if (lastPrice === undefined || position.avgPrice === null) return null;
+  return (lastPrice - position.avgPrice) * position.shares;
+}
+
+// Logs must be in the order they happened
+export function buildPositions(logs: TradingLog[]): PositionLedger {
+  const ledger: PositionLedger = {};
+  logs.forEach((log) => applyTrade(ledger, log));
+  return ledger;
+}
+
+// Open positions, plus closed ones that still carry realized P&L
+export function getOpenPositions(ledger: PositionLedger): Position[] {
+  return Object.values(ledger)
+    .filter((position) => position.shares !== 0 || position.realizedPnl !== 0)
+    .sort((a, b) => a.ticker.localeCompare(b.ticker));
+}
+
+export function formatMoney(value: number): string {
+  const sign = value < 0 ? "-" : "";
+  return `${sign}$${Math.abs(value).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+}
@@ -0,0 +1,68 @@
+export type SizingMode = "shares" | "notional";
+
+// How a dollar amount becomes a share count: whole shares rounded down or to
+// the nearest, or round lots of 100 once the order is at least that big
+export type SharesRounding = "down" | "nearest" | "round_lot";
+
+export interface SizingSettings {
+  mode: SizingMode;
+  notional: number;
+  maxShares: number;
+  rounding: SharesRounding;
+}
+
+export interface OrderSize {
+  shares: number;
+  // Estimated cost, when a price is known
+  notional: number | null;
+  // Hit maxShares
+  capped: boolean;
+}
+
+export const DEFAULT_SIZING: SizingSettings = {
+  mode: "shares",
+  notional: 1000,
+  maxShares: 10000,
+  rounding: "down",
+};
+
+function roundShares(shares: number, rounding: SharesRounding): number {
+  switch (rounding) {
+    case "nearest":
+      return Math.round(shares);
+    case "round_lot":
+      return shares >= 100
+        ? Math.floor(shares / 100) * 100
+        : Math.floor(shares);
+    default:
+      return Math.floor(shares);
+  }
+}
+
+/**
+ * Works out how many shares an order is for. In share mode that's
+ * `shareAmount`; in notional mode it's the dollar amount over the last price,
+ * which needs a price, so this returns null without one (or when the amount
+ * doesn't cover a single share).
+ */
+export function resolveOrderSize(
+  sizing: SizingSettings | undefined,
+  shareAmount: number,
+  price: number | undefined,
+): OrderSize | null {
+  if (!sizing || sizing.mode === "shares") {
+    return {
+      shares: shareAmount,
+      notional: price !== undefined ? shareAmount * price : null,
+      capped: false,
+    };
+  }
+
+  if (price === undefined || price <= 0) return null;
+
+  const rounded = roundShares(sizing.notional / price, sizing.rounding);
+  const shares = Math.min(rounded, sizing.maxShares);
+  if (shares <= 0) return null;
+
+  return { shares, notional: shares * price, capped: rounded > shares };
+}
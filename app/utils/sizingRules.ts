@@ -0,0 +1,59 @@
+import type { TradingMessage } from "~/types";
+
+export type SizingRuleMatch = "ticker" | "sender" | "keyword";
+
+export interface SizingRule {
+  id: string;
+  match: SizingRuleMatch;
+  // Ticker symbol, sender name, or a word/phrase to find in the message
+  pattern: string;
+  shares: number;
+}
+
+// Most specific first: a ticker rule beats a sender rule beats a keyword
+const MATCH_PRIORITY: SizingRuleMatch[] = ["ticker", "sender", "keyword"];
+
+function matches(
+  rule: SizingRule,
+  message: TradingMessage,
+  ticker: string | undefined,
+): boolean {
+  const pattern = rule.pattern.trim().toLowerCase();
+  if (!pattern) return false;
+
+  switch (rule.match) {
+    case "ticker":
+      return ticker?.toLowerCase() === pattern;
+    case "sender":
+      return message.sender.toLowerCase() === pattern;
+    case "keyword":
+      return `${message.title || ""} ${message.content || ""}`
+        .toLowerCase()
+        .includes(pattern);
+    default:
+      return false;
+  }
+}
+
+/**
+ * The preset that applies to a message and the ticker selected in it, if
+ * any. Within the same kind of rule, the first one listed wins.
+ */
+export function findSizingRule(
+  rules: SizingRule[],
+  message: TradingMessage,
+  ticker: string | undefined,
+): SizingRule | null {
+  for (const match of MATCH_PRIORITY) {
+    const rule = rules.find(
+      (rule) => rule.match === match && matches(rule, message, ticker),
+    );
+    if (rule) return rule;
+  }
+  return null;
+}
+
+export function describeSizingRule(rule: SizingRule): string {
+  const label = { ticker: "Ticker", sender: "Sender", keyword: "Keyword" };
+  return `${label[rule.match]} "${rule.pattern}" → ${rule.shares.toLocaleString()} shares`;
+}
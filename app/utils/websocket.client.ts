@@ -1,20 +1,61 @@
 import { io, Socket } from "socket.io-client";
-import type { TradingAction, TradingMessage } from "~/types";
+import type {
+  Bracket,
+  OrderStatusUpdate,
+  PaperAccount,
+  Position,
+  PriceTick,
+  TradingAction,
+  TradingHaltState,
+  TradingMessage,
+  TradingMessageUpdate,
+  TradingResponse,
+} from "~/types";
+import type {
+  ClientToServerEvents,
+  OrderRequestResult,
+  PayloadError,
+  ReplaceOrderRequest,
+  ServerToClientEvents,
+  SocketAuth,
+} from "~/types/socket";
 
-let socket: Socket | null = null;
+type TradingSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
 
-export function initSocket(token: string): Socket {
+let socket: TradingSocket | null = null;
+// Highest message sequence seen, handed to the server on reconnect so it can
+// replay anything broadcast while we were away
+let lastSeq: number | null = null;
+
+// `paper` asks for a paper trading session; users the server only allows to
+// paper trade get one regardless
+export function initSocket(
+  token: string,
+  options: { paper?: boolean } = {},
+): TradingSocket {
   if (socket) {
     socket.disconnect();
   }
 
   socket = io(window.ENV?.SOCKET_URL || "http://localhost:3001", {
-    auth: {
-      token,
-    },
+    // Evaluated on every (re)connect so the latest lastSeq is sent
+    auth: (cb) =>
+      cb({ token, lastSeq, paper: options.paper } satisfies SocketAuth),
     transports: ["websocket"],
   });
 
+  socket.on("connection_success", (data) => {
+    if (lastSeq === null && typeof data.lastSeq === "number") {
+      lastSeq = data.lastSeq;
+    }
+  });
+
+  socket.on("trading_message", (message) => {
+    if (message.seq && message.seq > (lastSeq ?? 0)) {
+      lastSeq = message.seq;
+    }
+  });
+
   socket.on("connect", () => {
     console.log("Connected to server");
   });
@@ -30,25 +71,93 @@ export function initSocket(token: string): Socket {
   return socket;
 }
 
-export function getSocket(): Socket | null {
+export function getSocket(): TradingSocket | null {
   return socket;
 }
 
+export function createClientOrderId(): string {
+  return `ord_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
 export function sendTradingAction(action: TradingAction) {
   if (socket && socket.connected) {
-    socket.emit("trading_action", action);
+    // The server dedupes on clientOrderId, so a re-sent action is harmless
+    socket.emit("trading_action", {
+      ...action,
+      clientOrderId: action.clientOrderId || createClientOrderId(),
+    });
+  } else {
+    console.error("Socket not connected");
+  }
+}
+
+// Also cancels the per-quantity orders and bracket legs placed under it
+export function cancelOrder(clientOrderId: string) {
+  if (socket && socket.connected) {
+    socket.emit("cancel_order", { clientOrderId });
+  } else {
+    console.error("Socket not connected");
+  }
+}
+
+// Every open order in the given tickers, or every open order
+export function cancelOrders(tickers?: string[]) {
+  if (socket && socket.connected) {
+    socket.emit("cancel_orders", { tickers });
   } else {
     console.error("Socket not connected");
   }
 }
 
+export function replaceOrder(request: ReplaceOrderRequest) {
+  if (socket && socket.connected) {
+    socket.emit("replace_order", request);
+  } else {
+    console.error("Socket not connected");
+  }
+}
+
+export function onOrderRequestResult(
+  callback: (result: OrderRequestResult) => void,
+) {
+  if (socket) {
+    socket.on("order_request_result", callback);
+  }
+}
+
+export function offOrderRequestResult(
+  callback: (result: OrderRequestResult) => void,
+) {
+  if (socket) {
+    socket.off("order_request_result", callback);
+  }
+}
+
 export function onMessage(callback: (message: TradingMessage) => void) {
   if (socket) {
     socket.on("trading_message", callback);
   }
 }
 
-export function onTradingResponse(callback: (response: any) => void) {
+export function onMessageUpdate(
+  callback: (update: TradingMessageUpdate) => void,
+) {
+  if (socket) {
+    socket.on("trading_message_update", callback);
+  }
+}
+
+export function offMessageUpdate(
+  callback: (update: TradingMessageUpdate) => void,
+) {
+  if (socket) {
+    socket.off("trading_message_update", callback);
+  }
+}
+
+export function onTradingResponse(
+  callback: (response: TradingResponse) => void,
+) {
   if (socket) {
     socket.on("trading_response", callback);
   }
@@ -60,12 +169,160 @@ export function offMessage(callback: (message: TradingMessage) => void) {
   }
 }
 
-export function offTradingResponse(callback: (response: any) => void) {
+export function offTradingResponse(
+  callback: (response: TradingResponse) => void,
+) {
   if (socket) {
     socket.off("trading_response", callback);
   }
 }
 
+export function onOrderStatus(callback: (update: OrderStatusUpdate) => void) {
+  if (socket) {
+    socket.on("order_status", callback);
+  }
+}
+
+export function offOrderStatus(callback: (update: OrderStatusUpdate) => void) {
+  if (socket) {
+    socket.off("order_status", callback);
+  }
+}
+
+export function onOutboxSnapshot(
+  callback: (orders: OrderStatusUpdate[]) => void,
+) {
+  if (socket) {
+    socket.on("outbox_snapshot", callback);
+  }
+}
+
+export function offOutboxSnapshot(
+  callback: (orders: OrderStatusUpdate[]) => void,
+) {
+  if (socket) {
+    socket.off("outbox_snapshot", callback);
+  }
+}
+
+export function onPositionUpdate(callback: (position: Position) => void) {
+  if (socket) {
+    socket.on("position_update", callback);
+  }
+}
+
+export function offPositionUpdate(callback: (position: Position) => void) {
+  if (socket) {
+    socket.off("position_update", callback);
+  }
+}
+
+export function onPositionsSnapshot(callback: (positions: Position[]) => void) {
+  if (socket) {
+    socket.on("positions_snapshot", callback);
+  }
+}
+
+export function offPositionsSnapshot(
+  callback: (positions: Position[]) => void,
+) {
+  if (socket) {
+    socket.off("positions_snapshot", callback);
+  }
+}
+
+export function onBracketUpdate(callback: (bracket: Bracket) => void) {
+  if (socket) {
+    socket.on("bracket_update", callback);
+  }
+}
+
+export function offBracketUpdate(callback: (bracket: Bracket) => void) {
+  if (socket) {
+    socket.off("bracket_update", callback);
+  }
+}
+
+export function onBracketsSnapshot(callback: (brackets: Bracket[]) => void) {
+  if (socket) {
+    socket.on("brackets_snapshot", callback);
+  }
+}
+
+export function offBracketsSnapshot(callback: (brackets: Bracket[]) => void) {
+  if (socket) {
+    socket.off("brackets_snapshot", callback);
+  }
+}
+
+export function onPaperAccount(callback: (account: PaperAccount) => void) {
+  if (socket) {
+    socket.on("paper_account", callback);
+  }
+}
+
+export function offPaperAccount(callback: (account: PaperAccount) => void) {
+  if (socket) {
+    socket.off("paper_account", callback);
+  }
+}
+
+export function onPriceUpdate(callback: (tick: PriceTick) => void) {
+  if (socket) {
+    socket.on("price_update", callback);
+  }
+}
+
+export function offPriceUpdate(callback: (tick: PriceTick) => void) {
+  if (socket) {
+    socket.off("price_update", callback);
+  }
+}
+
+export function onPricesSnapshot(callback: (ticks: PriceTick[]) => void) {
+  if (socket) {
+    socket.on("prices_snapshot", callback);
+  }
+}
+
+export function offPricesSnapshot(callback: (ticks: PriceTick[]) => void) {
+  if (socket) {
+    socket.off("prices_snapshot", callback);
+  }
+}
+
+export function setTradingHalt(halted: boolean, reason?: string) {
+  if (socket && socket.connected) {
+    socket.emit("set_trading_halt", { halted, reason });
+  } else {
+    console.error("Socket not connected");
+  }
+}
+
+export function onTradingHalt(callback: (state: TradingHaltState) => void) {
+  if (socket) {
+    socket.on("trading_halt", callback);
+  }
+}
+
+export function offTradingHalt(callback: (state: TradingHaltState) => void) {
+  if (socket) {
+    socket.off("trading_halt", callback);
+  }
+}
+
+export function onPayloadError(callback: (error: PayloadError) => void) {
+  if (socket) {
+    socket.on("payload_error", callback);
+  }
+}
+
+export function offPayloadError(callback: (error: PayloadError) => void) {
+  if (socket) {
+    socket.off("payload_error", callback);
+  }
+}
+
 export function disconnectSocket() {
   if (socket) {
     socket.disconnect();
@@ -0,0 +1,112 @@
+import { promises as fs } from "fs";
+import { join } from "path";
+import type { TradingAccountSummary } from "../app/types";
+import { loadExecutionConfig, type ExecutionConfig } from "./execution";
+import type { RiskLimits } from "./risk";
+
+const ACCOUNTS_FILE = join(process.cwd(), "data", "accounts.json");
+
+export const DEFAULT_ACCOUNT_ID = "default";
+const DEFAULT_BACKEND = "default";
+
+export interface TradingAccount {
+  id: string;
+  name: string;
+  // Key into `backends`
+  backend: string;
+  // Overrides of the global limits from data/risk-limits.json
+  riskLimits?: Partial<RiskLimits>;
+  // Users allowed to route here; everyone when omitted
+  users?: string[];
+}
+
+interface AccountsConfig {
+  backends: Record<string, ExecutionConfig>;
+  accounts: TradingAccount[];
+}
+
+let config: AccountsConfig | null = null;
+
+/**
+ * Reads data/accounts.json. Without it there's a single implicit account on
+ * the backend from data/execution.json, so nothing changes for one-account
+ * desks.
+ */
+export async function loadAccounts(): Promise<void> {
+  try {
+    const data = await fs.readFile(ACCOUNTS_FILE, "utf-8");
+    const parsed = JSON.parse(data) as AccountsConfig;
+
+    const unknown = parsed.accounts.filter(
+      (account) => !parsed.backends[account.backend],
+    );
+    if (unknown.length > 0) {
+      throw new Error(
+        `Unknown backend for account(s): ${unknown.map((account) => account.id).join(", ")}`,
+      );
+    }
+    if (parsed.accounts.length === 0) {
+      throw new Error("No accounts defined");
+    }
+
+    config = parsed;
+    console.log(`Loaded ${parsed.accounts.length} trading account(s)`);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error("Error reading accounts config:", error);
+    }
+    config = {
+      backends: { [DEFAULT_BACKEND]: await loadExecutionConfig() },
+      accounts: [
+        {
+          id: DEFAULT_ACCOUNT_ID,
+          name: "Default",
+          backend: DEFAULT_BACKEND,
+        },
+      ],
+    };
+  }
+}
+
+export function getBackendConfigs(): Record<string, ExecutionConfig> {
+  return config?.backends || {};
+}
+
+function canUse(account: TradingAccount, userId: string): boolean {
+  return !account.users || account.users.includes(userId);
+}
+
+export function getAccount(accountId?: string): TradingAccount | undefined {
+  return accountId
+    ? config?.accounts.find((account) => account.id === accountId)
+    : config?.accounts[0];
+}
+
+export function getUserAccounts(userId: string): TradingAccountSummary[] {
+  return (config?.accounts || [])
+    .filter((account) => canUse(account, userId))
+    .map(({ id, name }) => ({ id, name }));
+}
+
+/**
+ * The account an order from `userId` goes to: the one asked for, or their
+ * first. Returns a reason instead when they can't use it.
+ */
+export function resolveAccount(
+  userId: string,
+  accountId?: string,
+): TradingAccount | string {
+  const account = accountId
+    ? getAccount(accountId)
+    : config?.accounts.find((a) => canUse(a, userId));
+
+  if (!account) {
+    return accountId
+      ? `Unknown account ${accountId}`
+      : "No trading account available";
+  }
+  if (!canUse(account, userId)) {
+    return `Not allowed to trade account ${account.id}`;
+  }
+  return account;
+}
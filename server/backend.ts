@@ -0,0 +1,282 @@
+import type { OrderType, TimeInForce, TradingAction } from "../app/types";
+import { getAccount, getBackendConfigs } from "./accounts";
+import {
+  createExecutionAdapter,
+  type BackendFrame,
+  type ExecutionAdapter,
+} from "./execution";
+
+export interface BackendOrder {
+  clientOrderId: string;
+  sender?: string;
+  name?: string;
+  type: string;
+  timestamp: string;
+  ticker: string;
+  shares: number;
+  orderType: OrderType;
+  timeInForce: TimeInForce;
+  limitPrice?: number;
+  stopPrice?: number;
+  // Trading account id; picks the backend and goes out with the order
+  account?: string;
+}
+
+export interface BackendAck {
+  clientOrderId: string;
+  // Canceled when a cancel request reached the backend before the order did
+  status: "acked" | "rejected" | "canceled";
+  reason?: string;
+  // Set when the order executed with the ack; otherwise it's resting
+  filled?: boolean;
+  // Fill price and size, when the backend reports them with the ack
+  price?: number;
+  shares?: number;
+  timestamp: string;
+}
+
+// Reported after the ack, once a resting order fills or is canceled
+export interface BackendExecution {
+  clientOrderId: string;
+  type: "fill" | "canceled";
+  price?: number;
+  // Shares filled, when fewer than the rest of the order
+  shares?: number;
+  reason?: string;
+  timestamp: string;
+}
+
+interface PendingOrder {
+  backend: string;
+  orderType: OrderType;
+  resolve: (ack: BackendAck) => void;
+  reject: (error: Error) => void;
+  timeout: NodeJS.Timeout;
+}
+
+// Keyed by backend name from the accounts config
+const adapters = new Map<string, ExecutionAdapter>();
+const pendingOrders = new Map<string, PendingOrder>();
+const connectListeners = new Set<() => void>();
+const executionListeners = new Set<(execution: BackendExecution) => void>();
+// Orders the outbox still has working at a backend, restored from disk
+let workingOrders: (() => BackendOrder[]) | null = null;
+
+function getAckTimeoutMs(): number {
+  const timeout = parseInt(process.env.BACKEND_ACK_TIMEOUT_MS || "", 10);
+  return isNaN(timeout) || timeout <= 0 ? 5000 : timeout;
+}
+
+export function generateClientOrderId(): string {
+  return `ord_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export function buildBackendOrder(
+  action: TradingAction,
+  clientOrderId: string,
+): BackendOrder {
+  return {
+    clientOrderId,
+    sender: action.sender,
+    name: action.name,
+    type:
+      action.action.charAt(0).toUpperCase() +
+      action.action.slice(1).toLowerCase(),
+    timestamp: new Date().toISOString(),
+    ticker: action.ticker,
+    shares: action.shares,
+    orderType: action.orderType || "market",
+    timeInForce: action.timeInForce || "day",
+    limitPrice: action.limitPrice,
+    stopPrice: action.stopPrice,
+    account: action.account,
+  };
+}
+
+// The backend an account routes to; the first account's without one
+function getAdapter(
+  account?: string,
+): { backend: string; adapter: ExecutionAdapter } | null {
+  const backend = getAccount(account)?.backend;
+  const adapter = backend ? adapters.get(backend) : undefined;
+  return backend && adapter ? { backend, adapter } : null;
+}
+
+export function isBackendConnected(account?: string): boolean {
+  return !!getAdapter(account)?.adapter.isConnected();
+}
+
+export function onBackendConnected(listener: () => void): () => void {
+  connectListeners.add(listener);
+  return () => connectListeners.delete(listener);
+}
+
+// Hands an adapter the working orders that route to its backend
+function restoreWorkingOrders(backend: string, adapter: ExecutionAdapter) {
+  const orders = workingOrders?.() || [];
+  adapter.restore?.(
+    orders.filter((order) => getAccount(order.account)?.backend === backend),
+  );
+}
+
+export function setWorkingOrdersProvider(provider: () => BackendOrder[]): void {
+  workingOrders = provider;
+  adapters.forEach((adapter, backend) =>
+    restoreWorkingOrders(backend, adapter),
+  );
+}
+
+export function onBackendExecution(
+  listener: (execution: BackendExecution) => void,
+): () => void {
+  executionListeners.add(listener);
+  return () => executionListeners.delete(listener);
+}
+
+function settlePendingOrder(clientOrderId: string, ack: BackendAck) {
+  const pending = pendingOrders.get(clientOrderId);
+  if (!pending) return;
+
+  clearTimeout(pending.timeout);
+  pendingOrders.delete(clientOrderId);
+  pending.resolve(ack);
+}
+
+function failPendingOrders(backend: string, error: Error) {
+  pendingOrders.forEach((pending, clientOrderId) => {
+    if (pending.backend !== backend) return;
+    clearTimeout(pending.timeout);
+    pendingOrders.delete(clientOrderId);
+    pending.reject(error);
+  });
+}
+
+function handleBackendFrame(frame: BackendFrame) {
+  const timestamp = frame.timestamp || new Date().toISOString();
+  const pending = pendingOrders.get(frame.clientOrderId);
+
+  if (frame.type === "ack" || frame.type === "reject") {
+    settlePendingOrder(frame.clientOrderId, {
+      clientOrderId: frame.clientOrderId,
+      status: frame.type === "ack" ? "acked" : "rejected",
+      reason: frame.reason,
+      // Market orders execute on the spot unless the gateway says otherwise
+      filled:
+        frame.type === "ack" &&
+        (frame.filled ?? pending?.orderType === "market"),
+      price: frame.price,
+      timestamp,
+    });
+    return;
+  }
+
+  if (pending) {
+    // A cancel that beats the ack settles the order; a fill that does
+    // implies the ack and is reported with it
+    settlePendingOrder(frame.clientOrderId, {
+      clientOrderId: frame.clientOrderId,
+      status: frame.type === "fill" ? "acked" : "canceled",
+      reason: frame.reason,
+      filled: frame.type === "fill",
+      price: frame.price,
+      shares: frame.shares,
+      timestamp,
+    });
+    return;
+  }
+
+  const execution: BackendExecution = {
+    clientOrderId: frame.clientOrderId,
+    type: frame.type,
+    price: frame.price,
+    shares: frame.shares,
+    reason: frame.reason,
+    timestamp,
+  };
+  executionListeners.forEach((listener) => listener(execution));
+}
+
+/**
+ * Starts an execution adapter for every backend in the accounts config.
+ * Adapters keep their own connections alive; we only hear when they come and
+ * go.
+ */
+export function connectBackend(): void {
+  if (adapters.size > 0) return;
+
+  Object.entries(getBackendConfigs()).forEach(([backend, config]) => {
+    const adapter = createExecutionAdapter(config);
+    adapters.set(backend, adapter);
+    console.log(`Execution backend ${backend}: ${adapter.name}`);
+
+    adapter.connect({
+      connected: () => {
+        restoreWorkingOrders(backend, adapter);
+        connectListeners.forEach((listener) => listener());
+      },
+      disconnected: () =>
+        failPendingOrders(
+          backend,
+          new Error("Backend connection closed before acknowledgement"),
+        ),
+      frame: handleBackendFrame,
+    });
+  });
+}
+
+export function submitOrder(order: BackendOrder): Promise<BackendAck> {
+  const route = getAdapter(order.account);
+  if (!route || !route.adapter.isConnected()) {
+    return Promise.reject(new Error("Backend connection is not open"));
+  }
+
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      pendingOrders.delete(order.clientOrderId);
+      reject(new Error("Timed out waiting for backend acknowledgement"));
+    }, getAckTimeoutMs());
+
+    pendingOrders.set(order.clientOrderId, {
+      backend: route.backend,
+      orderType: order.orderType,
+      resolve,
+      reject,
+      timeout,
+    });
+
+    route.adapter.send(order).catch((error) => {
+      clearTimeout(timeout);
+      pendingOrders.delete(order.clientOrderId);
+      reject(error);
+    });
+  });
+}
+
+/**
+ * Asks the account's backend to cancel a resting order. Fire-and-forget: the
+ * backend confirms with a `canceled` frame, or a `fill` if it lost the race.
+ * Returns false when there's no connection to send it on.
+ */
+export function cancelOrder(clientOrderId: string, account?: string): boolean {
+  const route = getAdapter(account);
+  return !!route?.adapter.isConnected() && route.adapter.cancel(clientOrderId);
+}
+
+export interface OrderChanges {
+  shares?: number;
+  limitPrice?: number;
+  stopPrice?: number;
+}
+
+// Amends a resting order in place. Fire-and-forget like cancelOrder.
+export function replaceOrder(
+  clientOrderId: string,
+  changes: OrderChanges,
+  account?: string,
+): boolean {
+  const route = getAdapter(account);
+  return (
+    !!route?.adapter.isConnected() &&
+    route.adapter.replace(clientOrderId, changes)
+  );
+}
@@ -0,0 +1,370 @@
+import { promises as fs } from "fs";
+import { join } from "path";
+import type {
+  Bracket,
+  BracketLeg,
+  OrderStatus,
+  PriceTick,
+  TradingAction,
+} from "../app/types";
+import {
+  buildBackendOrder,
+  cancelOrder,
+  replaceOrder,
+  type OrderChanges,
+} from "./backend";
+import { ensureDataDirectory } from "./logger";
+import { roundPrice } from "./orderTypes";
+import { cancelOutboxOrder, enqueueOrder, replaceOutboxOrder } from "./outbox";
+import { getLastPrice } from "./prices";
+
+const BRACKETS_FILE = join(process.cwd(), "data", "brackets.json");
+
+// Called on every change; `filled` is set when a leg has just filled
+type BracketListener = (bracket: Bracket, filled?: BracketLeg) => void;
+
+const brackets = new Map<string, Bracket>();
+// Leg clientOrderId -> parent clientOrderId
+const legParents = new Map<string, string>();
+let listener: BracketListener | null = null;
+let persistQueue: Promise<void> = Promise.resolve();
+
+// Fill legs off the price feed instead of waiting for backend fill reports.
+// Paper brackets always do; the paper engine doesn't keep resting orders.
+function isLocalFills(bracket: Bracket): boolean {
+  return process.env.BRACKET_LOCAL_FILLS === "true" || !!bracket.paper;
+}
+
+function getEntryPrice(action: TradingAction): number | undefined {
+  return action.limitPrice ?? action.stopPrice ?? getLastPrice(action.ticker);
+}
+
+function persistBrackets(): Promise<void> {
+  persistQueue = persistQueue
+    .then(async () => {
+      await ensureDataDirectory();
+      const active = Array.from(brackets.values()).filter(
+        (bracket) => bracket.status === "active",
+      );
+      const tempFile = `${BRACKETS_FILE}.tmp`;
+      await fs.writeFile(tempFile, JSON.stringify(active, null, 2));
+      await fs.rename(tempFile, BRACKETS_FILE);
+    })
+    .catch((error) => {
+      console.error("Error persisting brackets:", error);
+    });
+  return persistQueue;
+}
+
+function isOpen(leg: BracketLeg): boolean {
+  return leg.status === "pending" || leg.status === "working";
+}
+
+function updateBracket(bracket: Bracket, filled?: BracketLeg): void {
+  if (!bracket.legs.some(isOpen)) bracket.status = "closed";
+  bracket.updatedAt = new Date().toISOString();
+  persistBrackets();
+  listener?.(bracket, filled);
+}
+
+function findLeg(
+  clientOrderId: string,
+): { bracket: Bracket; leg: BracketLeg } | null {
+  const bracket = brackets.get(legParents.get(clientOrderId) || "");
+  const leg = bracket?.legs.find((l) => l.clientOrderId === clientOrderId);
+  return bracket && leg ? { bracket, leg } : null;
+}
+
+function cancelLeg(bracket: Bracket, leg: BracketLeg): void {
+  if (!isOpen(leg)) return;
+  const wasPending = leg.status === "pending";
+  // Marked first so the outbox reporting the cancel back is a no-op
+  leg.status = "canceled";
+  if (isLocalFills(bracket)) return;
+
+  if (wasPending) {
+    cancelOutboxOrder(leg.clientOrderId);
+  } else {
+    cancelOrder(leg.clientOrderId, bracket.account);
+  }
+}
+
+function fillLeg(bracket: Bracket, leg: BracketLeg, price?: number): void {
+  if (leg.status === "filled") return;
+  if (leg.status === "canceled") {
+    // The backend filled it before our cancel arrived; it still happened
+    console.warn(`Bracket leg ${leg.clientOrderId} filled after cancel`);
+  }
+
+  leg.status = "filled";
+  leg.fillPrice = price ?? leg.price;
+  bracket.legs.forEach((other) => {
+    if (other !== leg) cancelLeg(bracket, other);
+  });
+  updateBracket(bracket, leg);
+}
+
+export function setBracketListener(bracketListener: BracketListener): void {
+  listener = bracketListener;
+}
+
+export function isBracketLeg(clientOrderId: string): boolean {
+  return legParents.has(clientOrderId);
+}
+
+export function getBrackets(userId: string, paper = false): Bracket[] {
+  return Array.from(brackets.values()).filter(
+    (bracket) => bracket.userId === userId && !!bracket.paper === paper,
+  );
+}
+
+/**
+ * Checks a priced order's bracket before it's sent, so a bracket we couldn't
+ * place doesn't leave an unprotected position. Returns a reason when it's
+ * unusable.
+ */
+export function checkBracket(action: TradingAction): string | null {
+  if (!action.bracket) return null;
+
+  const { takeProfitPercent, stopLossPercent } = action.bracket;
+  if (!takeProfitPercent && !stopLossPercent) {
+    return "Bracket needs a take-profit or stop-loss percent";
+  }
+  if (!getEntryPrice(action)) {
+    return `No entry price for ${action.ticker} to place the bracket from`;
+  }
+  return null;
+}
+
+/**
+ * Places the exit legs once the entry order fills: a limit at the
+ * take-profit and a stop at the stop-loss, both on the opposite side and
+ * good until canceled. They're priced off the fill when the backend reports
+ * its price.
+ */
+export function openBracket(
+  userId: string,
+  action: TradingAction,
+  parentOrderId: string,
+  paper = false,
+  fillPrice?: number,
+): Bracket | null {
+  const entryPrice = fillPrice ?? getEntryPrice(action);
+  if (!action.bracket || !entryPrice || brackets.has(parentOrderId)) {
+    return null;
+  }
+
+  // Long entries exit above for profit and below for the stop; shorts the
+  // other way round
+  const direction = action.action === "buy" ? 1 : -1;
+  const { takeProfitPercent, stopLossPercent } = action.bracket;
+  const legs: BracketLeg[] = [];
+
+  if (takeProfitPercent) {
+    legs.push({
+      clientOrderId: `${parentOrderId}-tp`,
+      kind: "take_profit",
+      orderType: "limit",
+      price: roundPrice(
+        entryPrice * (1 + (direction * takeProfitPercent) / 100),
+      ),
+      status: "pending",
+    });
+  }
+  if (stopLossPercent) {
+    legs.push({
+      clientOrderId: `${parentOrderId}-sl`,
+      kind: "stop_loss",
+      orderType: "stop",
+      price: roundPrice(entryPrice * (1 - (direction * stopLossPercent) / 100)),
+      status: "pending",
+    });
+  }
+
+  const now = new Date().toISOString();
+  const bracket: Bracket = {
+    parentOrderId,
+    userId,
+    ticker: action.ticker,
+    action: action.action === "buy" ? "sell" : "buy",
+    shares: action.shares,
+    entryPrice,
+    legs,
+    status: "active",
+    createdAt: now,
+    updatedAt: now,
+    messageId: action.messageId,
+    sender: action.sender,
+    name: action.name,
+    paper: paper || undefined,
+    account: action.account,
+  };
+
+  brackets.set(parentOrderId, bracket);
+  legs.forEach((leg) => {
+    legParents.set(leg.clientOrderId, parentOrderId);
+
+    if (isLocalFills(bracket)) {
+      // Simulated: the legs rest here and fill off the price feed
+      leg.status = "working";
+      return;
+    }
+
+    const legAction: TradingAction = {
+      action: bracket.action,
+      ticker: bracket.ticker,
+      shares: bracket.shares,
+      quantity: 1,
+      timestamp: now,
+      messageId: bracket.messageId,
+      sender: bracket.sender,
+      name: bracket.name,
+      clientOrderId: leg.clientOrderId,
+      orderType: leg.orderType,
+      timeInForce: "gtc",
+      limitPrice: leg.orderType === "limit" ? leg.price : undefined,
+      stopPrice: leg.orderType === "stop" ? leg.price : undefined,
+      account: bracket.account,
+    };
+    // Exits keep retrying through an outage rather than expiring
+    enqueueOrder(
+      userId,
+      legAction,
+      buildBackendOrder(legAction, leg.clientOrderId),
+      false,
+      true,
+    );
+  });
+
+  console.log(
+    `Bracket for ${parentOrderId}: ${legs.map((leg) => `${leg.kind} @ ${leg.price}`).join(", ")}`,
+  );
+  updateBracket(bracket);
+  return bracket;
+}
+
+/**
+ * Outbox results for a leg, the only way a sent leg settles. Working means
+ * the exit is resting at the backend (partial fills included); it's acked
+ * once it has filled completely.
+ */
+export function updateBracketLeg(
+  clientOrderId: string,
+  status: OrderStatus,
+  error?: string,
+  fillPrice?: number,
+): void {
+  const found = findLeg(clientOrderId);
+  if (!found || status === "queued" || status === "sent") return;
+  const { bracket, leg } = found;
+
+  if (status === "working") {
+    if (leg.status === "canceled") {
+      // Its sibling filled while this was still on its way
+      cancelOrder(leg.clientOrderId, bracket.account);
+      return;
+    }
+    if (leg.status !== "pending") return;
+    leg.status = "working";
+  } else if (status === "acked") {
+    fillLeg(bracket, leg, fillPrice);
+    return;
+  } else {
+    if (!isOpen(leg)) return;
+    leg.status = status === "canceled" ? "canceled" : "rejected";
+    leg.error = error;
+  }
+  updateBracket(bracket);
+}
+
+export function cancelBracketLeg(clientOrderId: string): boolean {
+  const found = findLeg(clientOrderId);
+  if (!found || !isOpen(found.leg)) return false;
+
+  cancelLeg(found.bracket, found.leg);
+  found.leg.error = "Canceled by user";
+  updateBracket(found.bracket);
+  return true;
+}
+
+/**
+ * Moves a leg's price. Both legs are sized to the entry, so the size can't
+ * change on its own. Returns a reason when the change isn't possible.
+ */
+export function replaceBracketLeg(
+  clientOrderId: string,
+  changes: OrderChanges,
+): string | null {
+  const found = findLeg(clientOrderId);
+  if (!found || !isOpen(found.leg)) return "Order is no longer open";
+  const { bracket, leg } = found;
+
+  if (changes.shares !== undefined) {
+    return "Bracket legs are sized to their entry; only the price can change";
+  }
+  const price =
+    leg.orderType === "limit" ? changes.limitPrice : changes.stopPrice;
+  if (price === undefined) {
+    return leg.kind === "take_profit"
+      ? "Take-profit legs need a limit price"
+      : "Stop-loss legs need a stop price";
+  }
+
+  if (!isLocalFills(bracket)) {
+    if (leg.status === "pending") {
+      const error = replaceOutboxOrder(clientOrderId, changes);
+      if (error) return error;
+    } else if (!replaceOrder(clientOrderId, changes, bracket.account)) {
+      return "Backend connection is not open";
+    }
+  }
+
+  leg.price = price;
+  updateBracket(bracket);
+  return null;
+}
+
+// Local fills: a take-profit fills once the price reaches it, a stop-loss
+// triggers once the price trades through it
+export function checkBracketTriggers(tick: PriceTick): void {
+  brackets.forEach((bracket) => {
+    if (
+      !isLocalFills(bracket) ||
+      bracket.status !== "active" ||
+      bracket.ticker.toUpperCase() !== tick.ticker.toUpperCase()
+    ) {
+      return;
+    }
+
+    // Exits that sell close a long, so they fill on the way up for profit
+    const direction = bracket.action === "sell" ? 1 : -1;
+    const leg = bracket.legs.find(
+      (l) =>
+        l.status === "working" &&
+        (l.kind === "take_profit"
+          ? direction * (tick.price - l.price) >= 0
+          : direction * (tick.price - l.price) <= 0),
+    );
+    if (leg) fillLeg(bracket, leg, tick.price);
+  });
+}
+
+export async function loadBrackets(): Promise<void> {
+  try {
+    const data = await fs.readFile(BRACKETS_FILE, "utf-8");
+    const active: Bracket[] = JSON.parse(data);
+
+    active.forEach((bracket) => {
+      brackets.set(bracket.parentOrderId, bracket);
+      bracket.legs.forEach((leg) =>
+        legParents.set(leg.clientOrderId, bracket.parentOrderId),
+      );
+    });
+
+    if (active.length > 0) {
+      console.log(`Restored ${active.length} active bracket(s)`);
+    }
+  } catch {
+    // No brackets yet
+  }
+}
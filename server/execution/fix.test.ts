@@ -0,0 +1,161 @@
+import type { EventEmitter } from "events";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { BackendOrder } from "../backend";
+import { createFixAdapter } from "./fix";
+import {
+  encodeFixMessage,
+  MsgType,
+  Tag,
+  type FixField,
+  type FixMessage,
+} from "./fixProtocol";
+import type { BackendFrame, ExecutionEvents } from "./types";
+
+// Stands in for the gateway connection: what the adapter writes is parsed
+// into `sent`, and `receive` plays messages back to it
+const gateway = vi.hoisted(() => ({
+  socket: null as (EventEmitter & { destroyed: boolean }) | null,
+  sent: [] as FixMessage[],
+}));
+
+vi.mock("net", async () => {
+  const { EventEmitter } = await import("events");
+  const { createFixParser } = await import("./fixProtocol");
+
+  class Socket extends EventEmitter {
+    destroyed = false;
+    private parse = createFixParser((message) => gateway.sent.push(message));
+
+    constructor() {
+      super();
+      gateway.socket = this;
+    }
+
+    connect(_port: number, _host: string, onConnect: () => void) {
+      onConnect();
+      return this;
+    }
+
+    setEncoding() {}
+
+    write(data: string) {
+      this.parse(data);
+      return true;
+    }
+
+    end() {}
+  }
+
+  return { Socket };
+});
+
+const receive = (msgType: string, fields: FixField[] = []) =>
+  gateway.socket?.emit(
+    "data",
+    encodeFixMessage("4.4", [[Tag.MsgType, msgType], ...fields]),
+  );
+
+const order: BackendOrder = {
+  clientOrderId: "ord1",
+  type: "Buy",
+  timestamp: "2024-01-02T14:30:00.000Z",
+  ticker: "AAPL",
+  shares: 100,
+  orderType: "limit",
+  timeInForce: "day",
+  limitPrice: 10,
+};
+
+function connect() {
+  const frames: BackendFrame[] = [];
+  const events: ExecutionEvents = {
+    connected: vi.fn(),
+    disconnected: vi.fn(),
+    frame: (frame) => frames.push(frame),
+  };
+  const adapter = createFixAdapter({
+    type: "fix",
+    port: 9878,
+    senderCompId: "DECK",
+    targetCompId: "GATEWAY",
+  });
+  adapter.connect(events);
+  receive(MsgType.Logon);
+  return { adapter, events, frames };
+}
+
+const fill = (ordStatus: string, lastQty: number, lastPx: number) =>
+  receive(MsgType.ExecutionReport, [
+    [Tag.ClOrdID, "ord1"],
+    [Tag.ExecType, "F"],
+    [Tag.OrdStatus, ordStatus],
+    [Tag.LastQty, lastQty],
+    [Tag.LastPx, lastPx],
+    [Tag.AvgPx, 10],
+  ]);
+
+describe("fix adapter execution reports", () => {
+  // Fake timers keep the session's heartbeat from running
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    gateway.sent = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("books each partial fill and keeps the order open until it's filled", async () => {
+    const { adapter, events, frames } = connect();
+    expect(events.connected).toHaveBeenCalledOnce();
+    await adapter.send(order);
+
+    fill("1", 40, 10.05);
+    expect(frames).toEqual([
+      { type: "fill", clientOrderId: "ord1", price: 10.05, shares: 40 },
+    ]);
+    // Still resting, so it can be canceled
+    expect(adapter.cancel("ord1")).toBe(true);
+    expect(gateway.sent.at(-1)?.get(Tag.OrigClOrdID)).toBe("ord1");
+    expect(gateway.sent.at(-1)?.get(Tag.ClOrdID)).toBe("ord1.1");
+
+    fill("2", 60, 10.1);
+    expect(frames[1]).toEqual({
+      type: "fill",
+      clientOrderId: "ord1",
+      price: 10.1,
+      shares: 60,
+    });
+    expect(adapter.cancel("ord1")).toBe(false);
+  });
+
+  it("matches reports for orders sent before a restart", () => {
+    const { adapter, frames } = connect();
+    adapter.restore?.([order]);
+
+    receive(MsgType.ExecutionReport, [
+      [Tag.ClOrdID, "ord1.2"],
+      [Tag.OrigClOrdID, "ord1.1"],
+      [Tag.ExecType, "5"],
+      [Tag.OrdStatus, "0"],
+      [Tag.OrderQty, 50],
+    ]);
+    expect(frames).toEqual([]);
+
+    // The cancel chains on the replaced ClOrdID and carries on its numbering
+    expect(adapter.cancel("ord1")).toBe(true);
+    expect(gateway.sent.at(-1)?.get(Tag.OrigClOrdID)).toBe("ord1.2");
+    expect(gateway.sent.at(-1)?.get(Tag.ClOrdID)).toBe("ord1.3");
+    expect(gateway.sent.at(-1)?.get(Tag.OrderQty)).toBe("50");
+
+    receive(MsgType.ExecutionReport, [
+      [Tag.ClOrdID, "ord1.3"],
+      [Tag.OrigClOrdID, "ord1.2"],
+      [Tag.ExecType, "4"],
+      [Tag.OrdStatus, "4"],
+    ]);
+    expect(frames).toEqual([{ type: "canceled", clientOrderId: "ord1" }]);
+  });
+});
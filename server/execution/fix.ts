@@ -0,0 +1,313 @@
+import { Socket } from "net";
+import type { BackendOrder } from "../backend";
+import {
+  createFixSession,
+  fixTimestamp,
+  MsgType,
+  readFixMessages,
+  Tag,
+  type FixField,
+  type FixMessage,
+  type FixSession,
+} from "./fixProtocol";
+import type {
+  BackendFrame,
+  ExecutionAdapter,
+  ExecutionEvents,
+  FixExecutionConfig,
+} from "./types";
+
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+const ORD_TYPES: Record<BackendOrder["orderType"], string> = {
+  market: "1",
+  limit: "2",
+  stop: "3",
+  // Already priced through the market by the time it gets here
+  marketable_limit: "2",
+};
+
+const TIME_IN_FORCE: Record<BackendOrder["timeInForce"], string> = {
+  day: "0",
+  gtc: "1",
+  ioc: "3",
+  fok: "4",
+};
+
+// ClOrdIDs are the clientOrderId, then `.1`, `.2`… for each cancel or replace
+const baseClOrdId = (clOrdId: string) => clOrdId.replace(/\.\d+$/, "");
+
+interface SentOrder {
+  order: BackendOrder;
+  // ClOrdID of the order's latest version; cancels and replaces chain on it
+  clOrdId: string;
+  revisions: number;
+}
+
+/**
+ * A FIX 4.2/4.4 initiator over TCP. Orders go out as NewOrderSingle (D),
+ * cancels and replaces as OrderCancelRequest (F) and
+ * OrderCancelReplaceRequest (G), and ExecutionReports (8) come back as
+ * frames keyed by our original clientOrderId.
+ */
+export function createFixAdapter(config: FixExecutionConfig): ExecutionAdapter {
+  const host = config.host || "127.0.0.1";
+  const version = config.version || "4.4";
+  const heartbeatSeconds = config.heartbeatSeconds || 30;
+
+  let session: FixSession | null = null;
+  let loggedOn = false;
+  let heartbeatTimer: NodeJS.Timeout | null = null;
+  let reconnectTimer: NodeJS.Timeout | null = null;
+  let reconnectAttempts = 0;
+  const orders = new Map<string, SentOrder>();
+  // Every ClOrdID we've sent -> the clientOrderId it belongs to
+  const clOrdIds = new Map<string, string>();
+
+  const side = (order: BackendOrder) =>
+    order.type.toLowerCase() === "buy" ? "1" : "2";
+
+  const orderFields = (order: BackendOrder): FixField[] => [
+    [Tag.Account, config.account ?? order.account],
+    [Tag.HandlInst, "1"],
+    [Tag.Symbol, order.ticker.toUpperCase()],
+    [Tag.Side, side(order)],
+    [Tag.TransactTime, fixTimestamp()],
+    [Tag.OrderQty, order.shares],
+    [Tag.OrdType, ORD_TYPES[order.orderType]],
+    [Tag.Price, order.limitPrice],
+    [Tag.StopPx, order.stopPrice],
+    [Tag.TimeInForce, TIME_IN_FORCE[order.timeInForce]],
+  ];
+
+  const nextClOrdId = (sent: SentOrder) => {
+    sent.revisions++;
+    const clOrdId = `${sent.order.clientOrderId}.${sent.revisions}`;
+    clOrdIds.set(clOrdId, sent.order.clientOrderId);
+    return clOrdId;
+  };
+
+  const handleExecutionReport = (
+    message: FixMessage,
+    events: ExecutionEvents,
+  ) => {
+    const reportedId = message.get(Tag.ClOrdID) || "";
+    const origId = message.get(Tag.OrigClOrdID) || "";
+    // A ClOrdID we didn't send this session (we've restarted since) is
+    // still the clientOrderId with a `.N` revision on the end
+    const clientOrderId =
+      clOrdIds.get(reportedId) ||
+      clOrdIds.get(origId) ||
+      baseClOrdId(reportedId || origId);
+    if (!clientOrderId) return;
+
+    // Keep new revisions clear of the ones sent before the restart
+    const sent = orders.get(clientOrderId);
+    if (sent && reportedId && !clOrdIds.has(reportedId)) {
+      clOrdIds.set(reportedId, clientOrderId);
+      const revision = parseInt(reportedId.split(".").pop() || "", 10);
+      if (revision > sent.revisions) sent.revisions = revision;
+    }
+
+    const execType = message.get(Tag.ExecType);
+    const reason = message.get(Tag.Text);
+    const frame = (
+      type: BackendFrame["type"],
+      extra: Partial<BackendFrame> = {},
+    ) => events.frame({ type, clientOrderId, reason, ...extra });
+
+    switch (execType) {
+      case "0": // New; fills are always reported separately
+        frame("ack", { filled: false });
+        break;
+      case "8": // Rejected
+        frame("reject");
+        orders.delete(clientOrderId);
+        break;
+      case "4": // Canceled
+      case "C": // Expired
+        frame("canceled", {
+          reason: reason || (execType === "C" ? "Expired" : undefined),
+        });
+        orders.delete(clientOrderId);
+        break;
+      case "5": {
+        // Replaced: later requests chain on the new ClOrdID
+        if (sent) {
+          sent.clOrdId = reportedId;
+          const qty = parseFloat(message.get(Tag.OrderQty) || "");
+          const price = parseFloat(message.get(Tag.Price) || "");
+          const stopPx = parseFloat(message.get(Tag.StopPx) || "");
+          if (!isNaN(qty)) sent.order.shares = qty;
+          if (!isNaN(price)) sent.order.limitPrice = price;
+          if (!isNaN(stopPx)) sent.order.stopPrice = stopPx;
+        }
+        break;
+      }
+      case "1": // 4.2 partial fill
+      case "2": // 4.2 fill
+      case "F": {
+        // 4.4 trade. Each report books its own execution; the order stays
+        // open until OrdStatus says it's completely filled.
+        const price = parseFloat(
+          message.get(Tag.LastPx) || message.get(Tag.AvgPx) || "",
+        );
+        const shares = parseFloat(message.get(Tag.LastQty) || "");
+        frame("fill", {
+          price: isNaN(price) ? undefined : price,
+          shares: isNaN(shares) ? undefined : shares,
+        });
+        if (message.get(Tag.OrdStatus) === "2") {
+          orders.delete(clientOrderId);
+        }
+        break;
+      }
+    }
+  };
+
+  const handleMessage = (
+    message: FixMessage,
+    socket: Socket,
+    events: ExecutionEvents,
+  ) => {
+    switch (message.get(Tag.MsgType)) {
+      case MsgType.Logon:
+        loggedOn = true;
+        console.log(`FIX session logged on to ${host}:${config.port}`);
+        heartbeatTimer = setInterval(
+          () => session?.send(MsgType.Heartbeat, []),
+          heartbeatSeconds * 1000,
+        );
+        events.connected();
+        break;
+      case MsgType.TestRequest:
+        session?.send(MsgType.Heartbeat, [
+          [Tag.TestReqID, message.get(Tag.TestReqID)],
+        ]);
+        break;
+      case MsgType.Logout:
+        console.warn(`FIX logout: ${message.get(Tag.Text) || "no reason"}`);
+        socket.end();
+        break;
+      case MsgType.ExecutionReport:
+        handleExecutionReport(message, events);
+        break;
+      case MsgType.OrderCancelReject:
+        console.warn(
+          `FIX cancel/replace of ${message.get(Tag.OrigClOrdID)} rejected: ${message.get(Tag.Text) || "no reason"}`,
+        );
+        break;
+      case MsgType.Reject:
+      case MsgType.BusinessMessageReject:
+        console.warn(`FIX reject: ${message.get(Tag.Text) || "no reason"}`);
+        break;
+    }
+  };
+
+  const adapter: ExecutionAdapter = {
+    name: `fix ${version} ${host}:${config.port}`,
+
+    connect(events) {
+      const socket = new Socket();
+      session = createFixSession(socket, {
+        version,
+        senderCompId: config.senderCompId,
+        targetCompId: config.targetCompId,
+      });
+      const connectedSession = session;
+      readFixMessages(socket, (message) =>
+        handleMessage(message, socket, events),
+      );
+
+      socket.connect(config.port, host, () => {
+        reconnectAttempts = 0;
+        connectedSession.send(MsgType.Logon, [
+          [Tag.EncryptMethod, 0],
+          [Tag.HeartBtInt, heartbeatSeconds],
+          [Tag.ResetSeqNumFlag, "Y"],
+        ]);
+      });
+
+      socket.on("error", (error) => {
+        console.error("FIX connection error:", error.message);
+      });
+
+      socket.on("close", () => {
+        if (session === connectedSession) session = null;
+        if (heartbeatTimer) clearInterval(heartbeatTimer);
+        heartbeatTimer = null;
+        loggedOn = false;
+        events.disconnected();
+        if (reconnectTimer) return;
+
+        const delay = Math.min(
+          500 * 2 ** reconnectAttempts,
+          MAX_RECONNECT_DELAY_MS,
+        );
+        reconnectAttempts++;
+        console.log(`Reconnecting to FIX gateway in ${delay}ms`);
+        reconnectTimer = setTimeout(() => {
+          reconnectTimer = null;
+          adapter.connect(events);
+        }, delay);
+      });
+    },
+
+    isConnected: () => loggedOn,
+
+    async send(order) {
+      if (!session || !loggedOn) {
+        throw new Error("Backend connection is not open");
+      }
+      orders.set(order.clientOrderId, {
+        order: { ...order },
+        clOrdId: order.clientOrderId,
+        revisions: 0,
+      });
+      clOrdIds.set(order.clientOrderId, order.clientOrderId);
+      session.send(MsgType.NewOrderSingle, [
+        [Tag.ClOrdID, order.clientOrderId],
+        ...orderFields(order),
+      ]);
+    },
+
+    restore(restored) {
+      restored.forEach((order) => {
+        if (orders.has(order.clientOrderId)) return;
+        orders.set(order.clientOrderId, {
+          order: { ...order },
+          clOrdId: order.clientOrderId,
+          revisions: 0,
+        });
+        clOrdIds.set(order.clientOrderId, order.clientOrderId);
+      });
+    },
+
+    cancel(clientOrderId) {
+      const sent = orders.get(clientOrderId);
+      if (!session || !loggedOn || !sent) return false;
+
+      return session.send(MsgType.OrderCancelRequest, [
+        [Tag.OrigClOrdID, sent.clOrdId],
+        [Tag.ClOrdID, nextClOrdId(sent)],
+        [Tag.Symbol, sent.order.ticker.toUpperCase()],
+        [Tag.Side, side(sent.order)],
+        [Tag.TransactTime, fixTimestamp()],
+        [Tag.OrderQty, sent.order.shares],
+      ]);
+    },
+
+    replace(clientOrderId, changes) {
+      const sent = orders.get(clientOrderId);
+      if (!session || !loggedOn || !sent) return false;
+
+      return session.send(MsgType.OrderCancelReplaceRequest, [
+        [Tag.OrigClOrdID, sent.clOrdId],
+        [Tag.ClOrdID, nextClOrdId(sent)],
+        ...orderFields({ ...sent.order, ...changes }),
+      ]);
+    },
+  };
+
+  return adapter;
+}
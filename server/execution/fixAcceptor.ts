@@ -0,0 +1,242 @@
+/**
+ * A stand-in FIX acceptor for trying the FIX adapter without a real gateway:
+ *
+ *   npx tsx server/execution/fixAcceptor.ts [port]
+ *
+ * It accepts any logon, acknowledges every order, fills market orders at
+ * once (at FIX_ACCEPTOR_FILL_PRICE) and rests everything else until it's
+ * canceled or replaced. Type `fill <ClOrdID> [price]` to fill a resting
+ * order by hand.
+ */
+import { createServer } from "net";
+import { createInterface } from "readline";
+import {
+  createFixSession,
+  MsgType,
+  readFixMessages,
+  Tag,
+  type FixField,
+  type FixMessage,
+  type FixSession,
+  type FixVersion,
+} from "./fixProtocol";
+
+interface RestingOrder {
+  orderId: string;
+  clOrdId: string;
+  symbol: string;
+  side: string;
+  qty: number;
+  ordType: string;
+  price?: number;
+  stopPx?: number;
+  session: FixSession;
+  version: FixVersion;
+}
+
+const port = parseInt(
+  process.argv[2] || process.env.FIX_ACCEPTOR_PORT || "9878",
+  10,
+);
+const fillPrice = parseFloat(process.env.FIX_ACCEPTOR_FILL_PRICE || "100");
+
+let nextOrderId = 1;
+let nextExecId = 1;
+// Keyed by the order's latest ClOrdID
+const resting = new Map<string, RestingOrder>();
+
+function sendExecutionReport(
+  order: RestingOrder,
+  execType: string,
+  ordStatus: string,
+  extra: FixField[] = [],
+) {
+  const filled = ordStatus === "2";
+  order.session.send(MsgType.ExecutionReport, [
+    [Tag.OrderID, order.orderId],
+    [Tag.ExecID, `exec${nextExecId++}`],
+    // 4.2 still wants ExecTransType, and reports fills as ExecType 2
+    [Tag.ExecTransType, order.version === "4.2" ? "0" : undefined],
+    [
+      Tag.ExecType,
+      execType === "F" && order.version === "4.2" ? "2" : execType,
+    ],
+    [Tag.OrdStatus, ordStatus],
+    [Tag.ClOrdID, order.clOrdId],
+    [Tag.Symbol, order.symbol],
+    [Tag.Side, order.side],
+    [Tag.OrderQty, order.qty],
+    [Tag.OrdType, order.ordType],
+    [Tag.Price, order.price],
+    [Tag.StopPx, order.stopPx],
+    [Tag.LeavesQty, filled || ordStatus === "4" ? 0 : order.qty],
+    [Tag.CumQty, filled ? order.qty : 0],
+    ...extra,
+  ]);
+}
+
+function fill(order: RestingOrder, price: number) {
+  resting.delete(order.clOrdId);
+  sendExecutionReport(order, "F", "2", [
+    [Tag.LastQty, order.qty],
+    [Tag.LastPx, price],
+    [Tag.AvgPx, price],
+  ]);
+  console.log(`Filled ${order.clOrdId} at ${price}`);
+}
+
+function parsePrice(message: FixMessage, tag: number): number | undefined {
+  const value = parseFloat(message.get(tag) || "");
+  return isNaN(value) ? undefined : value;
+}
+
+function handleNewOrder(
+  message: FixMessage,
+  session: FixSession,
+  version: FixVersion,
+) {
+  const order: RestingOrder = {
+    orderId: `o${nextOrderId++}`,
+    clOrdId: message.get(Tag.ClOrdID) || "",
+    symbol: message.get(Tag.Symbol) || "",
+    side: message.get(Tag.Side) || "1",
+    qty: parseFloat(message.get(Tag.OrderQty) || "0"),
+    ordType: message.get(Tag.OrdType) || "1",
+    price: parsePrice(message, Tag.Price),
+    stopPx: parsePrice(message, Tag.StopPx),
+    session,
+    version,
+  };
+  console.log(
+    `New ${order.clOrdId}: ${order.side === "1" ? "buy" : "sell"} ${order.qty} ${order.symbol}`,
+  );
+
+  sendExecutionReport(order, "0", "0");
+  if (order.ordType === "1") {
+    fill(order, fillPrice);
+  } else {
+    resting.set(order.clOrdId, order);
+  }
+}
+
+function rejectCancel(
+  message: FixMessage,
+  session: FixSession,
+  responseTo: string,
+) {
+  session.send(MsgType.OrderCancelReject, [
+    [Tag.OrderID, "NONE"],
+    [Tag.ClOrdID, message.get(Tag.ClOrdID)],
+    [Tag.OrigClOrdID, message.get(Tag.OrigClOrdID)],
+    [Tag.OrdStatus, "8"],
+    [Tag.CxlRejReason, "1"],
+    [Tag.CxlRejResponseTo, responseTo],
+    [Tag.Text, "Unknown order"],
+  ]);
+}
+
+function handleCancel(message: FixMessage, session: FixSession) {
+  const order = resting.get(message.get(Tag.OrigClOrdID) || "");
+  if (!order) {
+    rejectCancel(message, session, "1");
+    return;
+  }
+
+  resting.delete(order.clOrdId);
+  const origClOrdId = order.clOrdId;
+  order.clOrdId = message.get(Tag.ClOrdID) || origClOrdId;
+  sendExecutionReport(order, "4", "4", [[Tag.OrigClOrdID, origClOrdId]]);
+  console.log(`Canceled ${origClOrdId}`);
+}
+
+function handleReplace(message: FixMessage, session: FixSession) {
+  const order = resting.get(message.get(Tag.OrigClOrdID) || "");
+  if (!order) {
+    rejectCancel(message, session, "2");
+    return;
+  }
+
+  resting.delete(order.clOrdId);
+  const origClOrdId = order.clOrdId;
+  order.clOrdId = message.get(Tag.ClOrdID) || origClOrdId;
+  order.qty = parseFloat(message.get(Tag.OrderQty) || "") || order.qty;
+  order.price = parsePrice(message, Tag.Price) ?? order.price;
+  order.stopPx = parsePrice(message, Tag.StopPx) ?? order.stopPx;
+  resting.set(order.clOrdId, order);
+  sendExecutionReport(order, "5", "0", [[Tag.OrigClOrdID, origClOrdId]]);
+  console.log(`Replaced ${origClOrdId} with ${order.clOrdId}`);
+}
+
+const server = createServer((socket) => {
+  let session: FixSession | null = null;
+  let version: FixVersion = "4.4";
+
+  const onMessage = (message: FixMessage) => {
+    const msgType = message.get(Tag.MsgType);
+
+    if (!session) {
+      if (msgType !== MsgType.Logon) {
+        socket.destroy();
+        return;
+      }
+      version = message.get(Tag.BeginString) === "FIX.4.2" ? "4.2" : "4.4";
+      // Answer as whoever they think they're talking to
+      session = createFixSession(socket, {
+        version,
+        senderCompId: message.get(Tag.TargetCompID) || "ACCEPTOR",
+        targetCompId: message.get(Tag.SenderCompID) || "DECK",
+      });
+      session.send(MsgType.Logon, [
+        [Tag.EncryptMethod, 0],
+        [Tag.HeartBtInt, message.get(Tag.HeartBtInt) || 30],
+        [Tag.ResetSeqNumFlag, "Y"],
+      ]);
+      console.log(
+        `Logon from ${message.get(Tag.SenderCompID)} (FIX ${version})`,
+      );
+      return;
+    }
+
+    switch (msgType) {
+      case MsgType.TestRequest:
+        session.send(MsgType.Heartbeat, [
+          [Tag.TestReqID, message.get(Tag.TestReqID)],
+        ]);
+        break;
+      case MsgType.Logout:
+        session.send(MsgType.Logout, []);
+        socket.end();
+        break;
+      case MsgType.NewOrderSingle:
+        handleNewOrder(message, session, version);
+        break;
+      case MsgType.OrderCancelRequest:
+        handleCancel(message, session);
+        break;
+      case MsgType.OrderCancelReplaceRequest:
+        handleReplace(message, session);
+        break;
+    }
+  };
+
+  readFixMessages(socket, onMessage);
+  socket.on("error", (error) => console.error("Socket error:", error.message));
+  socket.on("close", () => console.log("Initiator disconnected"));
+});
+
+server.listen(port, () => {
+  console.log(`FIX acceptor listening on port ${port}`);
+});
+
+// fill <ClOrdID> [price]
+createInterface({ input: process.stdin }).on("line", (line) => {
+  const [command, clOrdId, price] = line.trim().split(/\s+/);
+  if (command !== "fill") return;
+
+  const order = resting.get(clOrdId);
+  if (!order) {
+    console.log(`No resting order ${clOrdId}`);
+    return;
+  }
+  fill(order, parseFloat(price) || order.price || order.stopPx || fillPrice);
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  createFixParser,
+  encodeFixMessage,
+  MsgType,
+  Tag,
+  type FixMessage,
+} from "./fixProtocol";
+
+const newOrder = () =>
+  encodeFixMessage("4.4", [
+    [Tag.MsgType, MsgType.NewOrderSingle],
+    [Tag.ClOrdID, "ord1"],
+    [Tag.Symbol, "AAPL"],
+    [Tag.OrderQty, 100],
+    [Tag.Price, undefined],
+  ]);
+
+describe("createFixParser", () => {
+  it("reads back an encoded message split across chunks", () => {
+    const messages: FixMessage[] = [];
+    const parse = createFixParser((message) => messages.push(message));
+    const raw = newOrder();
+
+    parse(raw.slice(0, 7));
+    parse(raw.slice(7, 30));
+    expect(messages).toHaveLength(0);
+    parse(raw.slice(30) + newOrder());
+
+    expect(messages).toHaveLength(2);
+    expect(messages[0].get(Tag.BeginString)).toBe("FIX.4.4");
+    expect(messages[0].get(Tag.MsgType)).toBe(MsgType.NewOrderSingle);
+    expect(messages[0].get(Tag.ClOrdID)).toBe("ord1");
+    expect(messages[0].get(Tag.OrderQty)).toBe("100");
+    // Fields without a value aren't sent
+    expect(messages[0].has(Tag.Price)).toBe(false);
+  });
+
+  it("drops a message with a bad checksum and keeps reading", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const messages: FixMessage[] = [];
+    const parse = createFixParser((message) => messages.push(message));
+
+    parse(newOrder().replace("AAPL", "MSFT") + newOrder());
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0].get(Tag.Symbol)).toBe("AAPL");
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,196 @@
+import type { Socket } from "net";
+
+// Just the FIX tags the deck and its stand-in acceptor use
+export const Tag = {
+  Account: 1,
+  AvgPx: 6,
+  BeginString: 8,
+  BodyLength: 9,
+  CheckSum: 10,
+  ClOrdID: 11,
+  CumQty: 14,
+  ExecID: 17,
+  ExecTransType: 20,
+  HandlInst: 21,
+  LastPx: 31,
+  LastQty: 32,
+  MsgSeqNum: 34,
+  MsgType: 35,
+  OrderID: 37,
+  OrderQty: 38,
+  OrdStatus: 39,
+  OrdType: 40,
+  OrigClOrdID: 41,
+  Price: 44,
+  SenderCompID: 49,
+  SendingTime: 52,
+  Side: 54,
+  Symbol: 55,
+  TargetCompID: 56,
+  Text: 58,
+  TimeInForce: 59,
+  TransactTime: 60,
+  EncryptMethod: 98,
+  StopPx: 99,
+  CxlRejReason: 102,
+  HeartBtInt: 108,
+  TestReqID: 112,
+  ResetSeqNumFlag: 141,
+  ExecType: 150,
+  LeavesQty: 151,
+  CxlRejResponseTo: 434,
+} as const;
+
+export const MsgType = {
+  Heartbeat: "0",
+  TestRequest: "1",
+  Reject: "3",
+  Logout: "5",
+  ExecutionReport: "8",
+  OrderCancelReject: "9",
+  Logon: "A",
+  NewOrderSingle: "D",
+  OrderCancelRequest: "F",
+  OrderCancelReplaceRequest: "G",
+  BusinessMessageReject: "j",
+} as const;
+
+export type FixVersion = "4.2" | "4.4";
+
+export type FixField = [number, string | number | undefined];
+
+// A parsed message, tag -> value. Repeating groups aren't needed here.
+export type FixMessage = Map<number, string>;
+
+const SOH = "\x01";
+
+export function fixTimestamp(date = new Date()): string {
+  return date
+    .toISOString()
+    .replace(/-/g, "")
+    .replace("T", "-")
+    .replace("Z", "");
+}
+
+function checksum(text: string): string {
+  let sum = 0;
+  for (let i = 0; i < text.length; i++) sum += text.charCodeAt(i);
+  return String(sum % 256).padStart(3, "0");
+}
+
+export function encodeFixMessage(
+  version: FixVersion,
+  fields: FixField[],
+): string {
+  const body = fields
+    .filter(([, value]) => value !== undefined && value !== "")
+    .map(([tag, value]) => `${tag}=${value}${SOH}`)
+    .join("");
+  const head = `${Tag.BeginString}=FIX.${version}${SOH}${Tag.BodyLength}=${body.length}${SOH}`;
+  return `${head}${body}${Tag.CheckSum}=${checksum(head + body)}${SOH}`;
+}
+
+/**
+ * Splits a TCP stream into FIX messages using BodyLength, so a message can
+ * arrive across several chunks. Messages with a bad checksum are dropped.
+ */
+export function createFixParser(
+  onMessage: (message: FixMessage) => void,
+): (chunk: string) => void {
+  let buffer = "";
+
+  return (chunk) => {
+    buffer += chunk;
+
+    for (;;) {
+      const start = buffer.indexOf(`${Tag.BeginString}=FIX`);
+      if (start === -1) {
+        buffer = "";
+        return;
+      }
+      buffer = buffer.slice(start);
+
+      const versionEnd = buffer.indexOf(SOH);
+      const lengthEnd = buffer.indexOf(SOH, versionEnd + 1);
+      if (versionEnd === -1 || lengthEnd === -1) return;
+
+      const lengthField = buffer.slice(versionEnd + 1, lengthEnd);
+      const bodyLength = parseInt(lengthField.slice(2), 10);
+      if (!lengthField.startsWith(`${Tag.BodyLength}=`) || isNaN(bodyLength)) {
+        // Not a real message start; look for the next one
+        buffer = buffer.slice(1);
+        continue;
+      }
+      const bodyEnd = lengthEnd + 1 + bodyLength;
+      const trailerEnd = buffer.indexOf(SOH, bodyEnd);
+      if (trailerEnd === -1) return;
+
+      const raw = buffer.slice(0, trailerEnd + 1);
+      buffer = buffer.slice(trailerEnd + 1);
+
+      const trailer = raw.slice(bodyEnd);
+      if (
+        trailer !== `${Tag.CheckSum}=${checksum(raw.slice(0, bodyEnd))}${SOH}`
+      ) {
+        console.warn("Dropping FIX message with a bad checksum");
+        continue;
+      }
+
+      const message: FixMessage = new Map();
+      raw
+        .split(SOH)
+        .filter(Boolean)
+        .forEach((field) => {
+          const separator = field.indexOf("=");
+          message.set(
+            parseInt(field.slice(0, separator), 10),
+            field.slice(separator + 1),
+          );
+        });
+      onMessage(message);
+    }
+  };
+}
+
+export function readFixMessages(
+  socket: Socket,
+  onMessage: (message: FixMessage) => void,
+): void {
+  socket.setEncoding("latin1");
+  socket.on("data", createFixParser(onMessage));
+}
+
+export interface FixSession {
+  send(msgType: string, fields: FixField[]): boolean;
+}
+
+/**
+ * Our side of a FIX session on a socket: stamps the standard header with
+ * our sequence numbers. Sequence numbers reset on every logon, so there's no
+ * resend handling.
+ */
+export function createFixSession(
+  socket: Socket,
+  options: { version: FixVersion; senderCompId: string; targetCompId: string },
+): FixSession {
+  let seq = 0;
+
+  return {
+    send(msgType, fields) {
+      if (socket.destroyed) return false;
+      seq++;
+      socket.write(
+        encodeFixMessage(options.version, [
+          [Tag.MsgType, msgType],
+          [Tag.SenderCompID, options.senderCompId],
+          [Tag.TargetCompID, options.targetCompId],
+          [Tag.MsgSeqNum, seq],
+          [Tag.SendingTime, fixTimestamp()],
+          ...fields,
+        ]),
+        "latin1",
+      );
+      return true;
+    },
+  };
+}
@@ -0,0 +1,126 @@
+import {
+  parseJsonFrames,
+  toJsonCancel,
+  toJsonOrder,
+  toJsonReplace,
+} from "./json";
+import type {
+  ExecutionAdapter,
+  ExecutionEvents,
+  HttpExecutionConfig,
+} from "./types";
+
+/**
+ * JSON over HTTP: every order, cancel and replace is POSTed to `url` in the
+ * same shape the WebSocket gateway takes, and the response body carries the
+ * reply frames. There's no connection to lose, so it counts as connected
+ * until a request fails to get through, and again once one does.
+ */
+export function createHttpAdapter(
+  config: HttpExecutionConfig,
+): ExecutionAdapter {
+  let events: ExecutionEvents | null = null;
+  let reachable = true;
+  let pollTimer: NodeJS.Timeout | null = null;
+
+  const getHeaders = (): Record<string, string> => {
+    const authToken = process.env.BACKEND_AUTH_TOKEN;
+    return {
+      "Content-Type": "application/json",
+      ...(authToken ? { Authorization: `Bearer ${authToken}` } : {}),
+      ...config.headers,
+    };
+  };
+
+  const setReachable = (value: boolean) => {
+    if (value === reachable) return;
+    reachable = value;
+    if (value) {
+      console.log(`Backend ${config.url} is reachable again`);
+      events?.connected();
+    } else {
+      events?.disconnected();
+    }
+  };
+
+  // `clientOrderId` is set for new orders, which a 4xx answer rejects
+  const request = async (
+    url: string,
+    body?: unknown,
+    clientOrderId?: string,
+  ): Promise<void> => {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: body === undefined ? "GET" : "POST",
+        headers: getHeaders(),
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    } catch (error) {
+      setReachable(false);
+      throw error;
+    }
+    setReachable(true);
+
+    const text = await response.text();
+    const frames = text.trim() ? parseJsonFrames(text) : [];
+    const answered = frames.some(
+      (frame) => frame.clientOrderId === clientOrderId,
+    );
+
+    // Only network errors and 5xx are worth retrying; a 4xx is the gateway
+    // turning the order down, so it's settled as a reject
+    if (!response.ok && !answered) {
+      if (!clientOrderId || response.status >= 500) {
+        throw new Error(`Backend responded ${response.status}: ${text}`);
+      }
+      frames.push({
+        type: "reject",
+        clientOrderId,
+        reason: `Backend responded ${response.status}${text.trim() ? `: ${text.trim()}` : ""}`,
+      });
+    }
+    frames.forEach((frame) => events?.frame(frame));
+  };
+
+  const post = (body: unknown): boolean => {
+    request(config.url, body).catch((error) => {
+      console.error("Backend HTTP error:", error.message);
+    });
+    return reachable;
+  };
+
+  const poll = () => {
+    pollTimer = setTimeout(() => {
+      request(config.executionsUrl!)
+        .catch((error) => {
+          console.error("Backend HTTP poll error:", error.message);
+        })
+        .finally(poll);
+    }, config.pollIntervalMs || 1000);
+  };
+
+  return {
+    name: `http ${config.url}`,
+
+    connect(executionEvents) {
+      events = executionEvents;
+      events.connected();
+      if (config.executionsUrl && !pollTimer) poll();
+    },
+
+    isConnected: () => reachable,
+
+    send: (order) =>
+      request(
+        config.url,
+        toJsonOrder(order, config.target),
+        order.clientOrderId,
+      ),
+
+    cancel: (clientOrderId) => post(toJsonCancel(clientOrderId)),
+
+    replace: (clientOrderId, changes) =>
+      post(toJsonReplace(clientOrderId, changes)),
+  };
+}
@@ -0,0 +1,41 @@
+import { promises as fs } from "fs";
+import { join } from "path";
+import { createFixAdapter } from "./fix";
+import { createHttpAdapter } from "./http";
+import type { ExecutionAdapter, ExecutionConfig } from "./types";
+import { createWebSocketAdapter } from "./websocket";
+
+const EXECUTION_FILE = join(process.cwd(), "data", "execution.json");
+
+export function createExecutionAdapter(
+  config: ExecutionConfig,
+): ExecutionAdapter {
+  switch (config.type) {
+    case "websocket":
+      return createWebSocketAdapter(config);
+    case "http":
+      return createHttpAdapter(config);
+    case "fix":
+      return createFixAdapter(config);
+    default:
+      throw new Error(
+        `Unknown execution adapter type: ${(config as { type: string }).type}`,
+      );
+  }
+}
+
+// Without data/execution.json orders go to the WebSocket gateway at
+// BACKEND_WEBSOCKET_URL, as they always have
+export async function loadExecutionConfig(): Promise<ExecutionConfig> {
+  try {
+    const data = await fs.readFile(EXECUTION_FILE, "utf-8");
+    return JSON.parse(data);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error("Error reading execution config:", error);
+    }
+    return { type: "websocket" };
+  }
+}
+
+export type { BackendFrame, ExecutionAdapter, ExecutionConfig } from "./types";
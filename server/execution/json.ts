@@ -0,0 +1,66 @@
+import type { BackendOrder, OrderChanges } from "../backend";
+import type { BackendFrame } from "./types";
+
+const FRAME_TYPES: BackendFrame["type"][] = [
+  "ack",
+  "reject",
+  "fill",
+  "canceled",
+];
+
+// The JSON gateways' order shape: the order plus the routing tag
+export function toJsonOrder(order: BackendOrder, target = "DECK") {
+  return { ...order, target };
+}
+
+export function toJsonCancel(clientOrderId: string) {
+  return {
+    type: "cancel",
+    clientOrderId,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+export function toJsonReplace(clientOrderId: string, changes: OrderChanges) {
+  return {
+    type: "replace",
+    clientOrderId,
+    ...changes,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Reads reply frames out of a JSON body: one frame or an array of them.
+ * Anything without a known type and a clientOrderId is dropped.
+ */
+export function parseJsonFrames(data: string): BackendFrame[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    console.warn("Ignoring non-JSON frame from backend");
+    return [];
+  }
+
+  return (Array.isArray(parsed) ? parsed : [parsed])
+    .filter(
+      (frame): frame is Record<string, unknown> =>
+        !!frame && typeof frame === "object",
+    )
+    .filter(
+      (frame) =>
+        FRAME_TYPES.includes(frame.type as BackendFrame["type"]) &&
+        typeof frame.clientOrderId === "string",
+    )
+    .map((frame) => ({
+      type: frame.type as BackendFrame["type"],
+      clientOrderId: frame.clientOrderId as string,
+      reason: typeof frame.reason === "string" ? frame.reason : undefined,
+      price: typeof frame.price === "number" ? frame.price : undefined,
+      filled: typeof frame.filled === "boolean" ? frame.filled : undefined,
+      shares: typeof frame.shares === "number" ? frame.shares : undefined,
+      timestamp:
+        typeof frame.timestamp === "string" ? frame.timestamp : undefined,
+    }));
+}
@@ -0,0 +1,77 @@
+import type { BackendOrder, OrderChanges } from "../backend";
+
+/**
+ * What a gateway told us about an order, whatever protocol it speaks. `ack`,
+ * `reject` and a `canceled` that beats the ack settle a submitted order;
+ * `fill` and later `canceled` reports are executions of a resting one.
+ */
+export interface BackendFrame {
+  type: "ack" | "reject" | "fill" | "canceled";
+  clientOrderId: string;
+  reason?: string;
+  price?: number;
+  // Acks: whether the order executed there and then. Left out, market orders
+  // count as filled and everything else as resting.
+  filled?: boolean;
+  // Fills: shares executed, when fewer than the rest of the order
+  shares?: number;
+  timestamp?: string;
+}
+
+export interface ExecutionEvents {
+  connected(): void;
+  // Orders still waiting for an answer can't get one any more
+  disconnected(): void;
+  frame(frame: BackendFrame): void;
+}
+
+export interface ExecutionAdapter {
+  name: string;
+  connect(events: ExecutionEvents): void;
+  isConnected(): boolean;
+  // Resolves once the order is on its way; the answer arrives as a frame
+  send(order: BackendOrder): Promise<void>;
+  // Fire-and-forget; false when there's no connection to send on
+  cancel(clientOrderId: string): boolean;
+  replace(clientOrderId: string, changes: OrderChanges): boolean;
+  // Orders left resting at the gateway from before a restart, for adapters
+  // that keep per-order state, so their reports and cancels still match up
+  restore?(orders: BackendOrder[]): void;
+}
+
+export interface WebSocketExecutionConfig {
+  type: "websocket";
+  // Defaults to BACKEND_WEBSOCKET_URL
+  url?: string;
+  // Routing tag sent with every order, defaults to "DECK"
+  target?: string;
+}
+
+export interface HttpExecutionConfig {
+  type: "http";
+  // Orders, cancels and replaces are POSTed here; the response holds the
+  // reply frame (or an array of them)
+  url: string;
+  target?: string;
+  headers?: Record<string, string>;
+  // Polled for fills and cancels of resting orders
+  executionsUrl?: string;
+  pollIntervalMs?: number;
+}
+
+export interface FixExecutionConfig {
+  type: "fix";
+  host?: string;
+  port: number;
+  version?: "4.2" | "4.4";
+  senderCompId: string;
+  targetCompId: string;
+  heartbeatSeconds?: number;
+  // Sent as Account (1) on every order in place of the deck's account id
+  account?: string;
+}
+
+export type ExecutionConfig =
+  | WebSocketExecutionConfig
+  | HttpExecutionConfig
+  | FixExecutionConfig;
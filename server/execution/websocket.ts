@@ -0,0 +1,103 @@
+import WebSocket from "ws";
+import {
+  parseJsonFrames,
+  toJsonCancel,
+  toJsonOrder,
+  toJsonReplace,
+} from "./json";
+import type { ExecutionAdapter, WebSocketExecutionConfig } from "./types";
+
+const INITIAL_RECONNECT_DELAY_MS = 500;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+/**
+ * The original gateway: JSON orders over a WebSocket, answered with JSON
+ * frames on the same connection. Reconnects with backoff.
+ */
+export function createWebSocketAdapter(
+  config: WebSocketExecutionConfig,
+): ExecutionAdapter {
+  const url =
+    config.url || process.env.BACKEND_WEBSOCKET_URL || "http://localhost:8080";
+  let ws: WebSocket | null = null;
+  let reconnectAttempts = 0;
+  let reconnectTimer: NodeJS.Timeout | null = null;
+
+  const isOpen = () => ws?.readyState === WebSocket.OPEN;
+
+  const sendJson = (payload: unknown): boolean => {
+    if (!ws || !isOpen()) return false;
+    ws.send(JSON.stringify(payload));
+    return true;
+  };
+
+  const adapter: ExecutionAdapter = {
+    name: `websocket ${url}`,
+
+    connect(events) {
+      const scheduleReconnect = () => {
+        if (reconnectTimer) return;
+
+        const delay = Math.min(
+          INITIAL_RECONNECT_DELAY_MS * 2 ** reconnectAttempts,
+          MAX_RECONNECT_DELAY_MS,
+        );
+        reconnectAttempts++;
+
+        console.log(`Reconnecting to backend in ${delay}ms`);
+        reconnectTimer = setTimeout(() => {
+          reconnectTimer = null;
+          adapter.connect(events);
+        }, delay);
+      };
+
+      const authToken = process.env.BACKEND_AUTH_TOKEN;
+      const socket = new WebSocket(url, {
+        headers: authToken ? { Authorization: `Bearer ${authToken}` } : {},
+        perMessageDeflate: false,
+      });
+      ws = socket;
+
+      socket.on("open", () => {
+        reconnectAttempts = 0;
+        console.log("Connected to backend WebSocket");
+        events.connected();
+      });
+
+      socket.on("message", (data) =>
+        parseJsonFrames(data.toString()).forEach(events.frame),
+      );
+
+      socket.on("error", (error) => {
+        console.error("Backend WebSocket error:", error.message);
+      });
+
+      socket.on("close", () => {
+        if (ws === socket) ws = null;
+        events.disconnected();
+        scheduleReconnect();
+      });
+    },
+
+    isConnected: isOpen,
+
+    send(order) {
+      return new Promise((resolve, reject) => {
+        if (!ws || !isOpen()) {
+          reject(new Error("Backend connection is not open"));
+          return;
+        }
+        ws.send(JSON.stringify(toJsonOrder(order, config.target)), (error) =>
+          error ? reject(error) : resolve(),
+        );
+      });
+    },
+
+    cancel: (clientOrderId) => sendJson(toJsonCancel(clientOrderId)),
+
+    replace: (clientOrderId, changes) =>
+      sendJson(toJsonReplace(clientOrderId, changes)),
+  };
+
+  return adapter;
+}
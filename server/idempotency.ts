@@ -0,0 +1,46 @@
+interface IdempotencyRecord<T> {
+  result: Promise<T>;
+  expiresAt: number;
+}
+
+const records = new Map<string, IdempotencyRecord<unknown>>();
+
+function getWindowMs(): number {
+  const windowMs = parseInt(process.env.IDEMPOTENCY_WINDOW_MS || "", 10);
+  return isNaN(windowMs) || windowMs <= 0 ? 10 * 60 * 1000 : windowMs;
+}
+
+function purgeExpired(now: number) {
+  records.forEach((record, key) => {
+    if (record.expiresAt <= now) records.delete(key);
+  });
+}
+
+/**
+ * Runs `fn` once per key within the dedupe window. Repeat calls with the same
+ * key get the original result (awaiting it if it is still in flight) instead
+ * of running `fn` again.
+ */
+export async function runIdempotent<T>(
+  key: string,
+  fn: () => Promise<T>,
+): Promise<{ result: T; replayed: boolean }> {
+  const now = Date.now();
+  purgeExpired(now);
+
+  const existing = records.get(key) as IdempotencyRecord<T> | undefined;
+  if (existing) {
+    return { result: await existing.result, replayed: true };
+  }
+
+  const result = fn();
+  records.set(key, { result, expiresAt: now + getWindowMs() });
+
+  try {
+    return { result: await result, replayed: false };
+  } catch (error) {
+    // Failures that never produced a response shouldn't block a retry
+    records.delete(key);
+    throw error;
+  }
+}
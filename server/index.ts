@@ -1,12 +1,26 @@
 import dotenv from "dotenv";
 import { createServer } from "http";
 import { Server as SocketIOServer } from "socket.io";
-import { setupWebSocket } from "./websocket.server";
+import { loadAccounts } from "./accounts";
+import { connectBackend } from "./backend";
+import { checkBracketTriggers, loadBrackets } from "./brackets";
+import { handleIngestRequest } from "./ingest";
+import { loadMessageStore } from "./messageStore";
+import { ingestTradingMessage } from "./messages";
+import { loadOutbox } from "./outbox";
+import { loadPaperAccounts } from "./paper";
+import { loadPositions } from "./positions";
+import { startPriceFeeds } from "./prices";
+import { loadRiskLimits, watchRiskLimits } from "./risk";
+import { startMessageSources } from "./sources";
+import { setupWebSocket, type TradingServer } from "./websocket.server";
 
 dotenv.config();
 
-const server = createServer();
-const io = new SocketIOServer(server, {
+// Plain HTTP requests (anything Socket.IO doesn't claim) go to the message
+// ingestion webhook
+const server = createServer((req, res) => handleIngestRequest(req, res, io));
+const io: TradingServer = new SocketIOServer(server, {
   cors: {
     origin: "*",
     methods: ["GET", "POST"],
@@ -15,6 +29,21 @@ const io = new SocketIOServer(server, {
 });
 
 setupWebSocket(io);
+loadAccounts().then(connectBackend);
+// Bracket legs settle through the outbox, so their brackets load first
+loadBrackets().then(loadOutbox);
+loadPositions();
+loadPaperAccounts();
+loadRiskLimits().then(watchRiskLimits);
+startPriceFeeds((tick) => {
+  io.emit("price_update", tick);
+  checkBracketTriggers(tick);
+});
+loadMessageStore().then(() =>
+  startMessageSources((message, source) =>
+    ingestTradingMessage(io, message, `source ${source}`),
+  ),
+);
 
 const PORT = process.env.WEBSOCKET_PORT || 3001;
 
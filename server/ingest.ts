@@ -0,0 +1,137 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { IncomingMessage, ServerResponse } from "http";
+import { ingestTradingMessage } from "./messages";
+import type { TradingServer } from "./websocket.server";
+
+const INGEST_PATH = "/api/messages";
+const MAX_BODY_BYTES = 1024 * 1024;
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+function readBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error("Request body too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+/**
+ * Accepts either an `x-api-key` header matching INGEST_API_KEY, or an
+ * `x-signature: sha256=<hex>` header holding the HMAC-SHA256 of the raw body
+ * keyed with INGEST_HMAC_SECRET.
+ */
+function isAuthorized(req: IncomingMessage, body: Buffer): boolean {
+  const apiKey = process.env.INGEST_API_KEY;
+  const hmacSecret = process.env.INGEST_HMAC_SECRET;
+
+  const providedKey = req.headers["x-api-key"];
+  if (apiKey && typeof providedKey === "string") {
+    return safeEqual(providedKey, apiKey);
+  }
+
+  const signature = req.headers["x-signature"];
+  if (hmacSecret && typeof signature === "string") {
+    const expected = `sha256=${createHmac("sha256", hmacSecret)
+      .update(body)
+      .digest("hex")}`;
+    return safeEqual(signature, expected);
+  }
+
+  return false;
+}
+
+async function handleIngest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  io: TradingServer,
+): Promise<void> {
+  const path = (req.url || "").split("?")[0];
+
+  if (path !== INGEST_PATH) {
+    sendJson(res, 404, { error: "Not found" });
+    return;
+  }
+
+  if (req.method !== "POST") {
+    sendJson(res, 405, { error: "Method not allowed" });
+    return;
+  }
+
+  if (!process.env.INGEST_API_KEY && !process.env.INGEST_HMAC_SECRET) {
+    sendJson(res, 503, { error: "Message ingestion is not configured" });
+    return;
+  }
+
+  let body: Buffer;
+  try {
+    body = await readBody(req);
+  } catch (error) {
+    sendJson(res, 413, {
+      error: error instanceof Error ? error.message : "Invalid body",
+    });
+    return;
+  }
+
+  if (!isAuthorized(req, body)) {
+    sendJson(res, 401, { error: "Unauthorized" });
+    return;
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body.toString("utf-8"));
+  } catch {
+    sendJson(res, 400, { error: "Body must be valid JSON" });
+    return;
+  }
+
+  // A single message or a batch
+  const messages = Array.isArray(payload) ? payload : [payload];
+  const results = messages.map((message) =>
+    ingestTradingMessage(io, message, "webhook"),
+  );
+
+  const hasInvalid = results.some((result) => result.status === "invalid");
+  sendJson(res, hasInvalid && results.length === 1 ? 400 : 202, {
+    results,
+  });
+}
+
+// Nothing a request sends may take the socket server down with it
+export async function handleIngestRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  io: TradingServer,
+): Promise<void> {
+  try {
+    await handleIngest(req, res, io);
+  } catch (error) {
+    console.error("Error handling ingest request:", error);
+    if (!res.headersSent) {
+      sendJson(res, 500, { error: "Internal server error" });
+    } else {
+      res.end();
+    }
+  }
+}
@@ -1,38 +1,212 @@
 import { promises as fs } from "fs";
 import { join } from "path";
-import type { TradingLog } from "../app/types";
+import type {
+  TradingHistoryPage,
+  TradingHistoryQuery,
+  TradingLog,
+} from "../app/types";
 
-const LOG_FILE = join(process.cwd(), "data", "trading-history.json");
+const DATA_DIR = join(process.cwd(), "data");
+const HISTORY_DIR = join(DATA_DIR, "history");
+// The old single JSON array, migrated into the daily files on first load
+const LEGACY_LOG_FILE = join(DATA_DIR, "trading-history.json");
+const HISTORY_FILE_PATTERN = /^trading-(\d{4}-\d{2}-\d{2})\.jsonl$/;
+
+export type TradingLogFilters = Omit<
+  TradingHistoryQuery,
+  "sortBy" | "order" | "limit" | "cursor"
+>;
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+// Every entry we've read, plus indexes of positions into it. The history
+// files are only ever appended to, so each one is read from where we left
+// off; that also picks up entries written by the other process (the socket
+// server writes, the Remix app reads).
+const entries: TradingLog[] = [];
+const byUser = new Map<string, number[]>();
+const byTicker = new Map<string, number[]>();
+const byDate = new Map<string, number[]>();
+const fileOffsets = new Map<string, number>();
+
+let appendQueue: Promise<unknown> = Promise.resolve();
+let migration: Promise<void> | null = null;
 
 export async function ensureDataDirectory(): Promise<void> {
-  const dataDir = join(process.cwd(), "data");
   try {
-    await fs.access(dataDir);
+    await fs.access(DATA_DIR);
   } catch {
-    await fs.mkdir(dataDir, { recursive: true });
+    await fs.mkdir(DATA_DIR, { recursive: true });
   }
 }
 
-export async function loadTradingLogs(): Promise<TradingLog[]> {
+function addToIndex(index: Map<string, number[]>, key: string, i: number) {
+  const positions = index.get(key);
+  if (positions) {
+    positions.push(i);
+  } else {
+    index.set(key, [i]);
+  }
+}
+
+function indexEntry(log: TradingLog) {
+  const i = entries.push(log) - 1;
+  addToIndex(byUser, log.userId, i);
+  addToIndex(byTicker, log.ticker.toUpperCase(), i);
+  addToIndex(byDate, log.timestamp.slice(0, 10), i);
+}
+
+// Files rotate daily on the entry's UTC date
+function getHistoryFile(log: TradingLog): string {
+  const date = log.timestamp.slice(0, 10);
+  return join(HISTORY_DIR, `trading-${date}.jsonl`);
+}
+
+// All or nothing: if any file can't be written, the ones already appended to
+// are cut back to where they were
+async function appendLogs(logs: TradingLog[]): Promise<void> {
+  const grouped = new Map<string, string>();
+  logs.forEach((log) => {
+    const file = getHistoryFile(log);
+    grouped.set(file, (grouped.get(file) || "") + JSON.stringify(log) + "\n");
+  });
+
+  await fs.mkdir(HISTORY_DIR, { recursive: true });
+  const sizes = new Map<string, number>();
   try {
-    await ensureDataDirectory();
-    const data = await fs.readFile(LOG_FILE, "utf-8");
-    return JSON.parse(data);
+    for (const [file, lines] of grouped) {
+      const size = await fs.stat(file).then(
+        (stats) => stats.size,
+        () => 0,
+      );
+      sizes.set(file, size);
+      await fs.appendFile(file, lines);
+    }
   } catch (error) {
-    return [];
+    for (const [file, size] of sizes) {
+      await fs.truncate(file, size).catch((truncateError) => {
+        console.error(`Error rolling back ${file}:`, truncateError);
+      });
+    }
+    throw error;
   }
 }
 
-export async function saveTradingLogs(logs: TradingLog[]): Promise<void> {
-  await ensureDataDirectory();
-  await fs.writeFile(LOG_FILE, JSON.stringify(logs, null, 2));
+/**
+ * One-time move of data/trading-history.json into the daily files. The file
+ * is renamed first so only one process ever migrates it, and kept as
+ * `.migrated` afterwards in case anything needs checking. If the move fails
+ * it's put back, so the next start tries again.
+ */
+async function migrateLegacyLog(): Promise<void> {
+  const claimed = `${LEGACY_LOG_FILE}.migrating`;
+  try {
+    await fs.rename(LEGACY_LOG_FILE, claimed);
+  } catch {
+    return; // Nothing to migrate, or another process got there first
+  }
+
+  let logs: TradingLog[];
+  try {
+    logs = JSON.parse(await fs.readFile(claimed, "utf-8"));
+    await appendLogs(logs);
+  } catch (error) {
+    console.error("Error migrating trading history:", error);
+    await fs.rename(claimed, LEGACY_LOG_FILE).catch((renameError) => {
+      console.error(
+        `Error restoring ${LEGACY_LOG_FILE}, it's left at ${claimed}:`,
+        renameError,
+      );
+    });
+    return;
+  }
+
+  // The entries are in; from here the old file is only kept for reference
+  await fs
+    .rename(claimed, `${LEGACY_LOG_FILE}.migrated`)
+    .catch((error) =>
+      console.error(`Error renaming ${claimed} after migrating:`, error),
+    );
+  console.log(`Migrated ${logs.length} trading log entries to ${HISTORY_DIR}`);
 }
 
+async function readNewEntries(file: string): Promise<void> {
+  const path = join(HISTORY_DIR, file);
+  const offset = fileOffsets.get(file) || 0;
+  const { size } = await fs.stat(path);
+  if (size <= offset) return;
+
+  const handle = await fs.open(path, "r");
+  try {
+    const buffer = Buffer.alloc(size - offset);
+    await handle.read(buffer, 0, buffer.length, offset);
+
+    // Stop at the last newline; a line still being written is picked up on
+    // the next sync
+    const end = buffer.lastIndexOf("\n");
+    if (end === -1) return;
+
+    buffer
+      .subarray(0, end)
+      .toString("utf-8")
+      .split("\n")
+      .forEach((line) => {
+        if (!line.trim()) return;
+        try {
+          indexEntry(JSON.parse(line));
+        } catch {
+          console.warn(`Skipping corrupt line in ${file}`);
+        }
+      });
+    fileOffsets.set(file, offset + end + 1);
+  } finally {
+    await handle.close();
+  }
+}
+
+// Catches the indexes up with everything on disk
+async function syncHistory(): Promise<void> {
+  migration = migration || migrateLegacyLog();
+  await migration;
+  // Don't read a file halfway through our own append
+  await appendQueue;
+
+  let files: string[];
+  try {
+    files = await fs.readdir(HISTORY_DIR);
+  } catch {
+    return; // No history yet
+  }
+
+  for (const file of files.filter((f) => HISTORY_FILE_PATTERN.test(f)).sort()) {
+    await readNewEntries(file);
+  }
+}
+
+export async function loadTradingLogs(): Promise<TradingLog[]> {
+  try {
+    await syncHistory();
+    return [...entries];
+  } catch (error) {
+    console.error("Error loading trading logs:", error);
+    return [];
+  }
+}
+
+/**
+ * Appends one entry to the current day's file. Writes are queued so
+ * concurrent orders never interleave or lose lines.
+ */
 export async function logTradingAction(action: TradingLog): Promise<boolean> {
+  const write = appendQueue.then(async () => {
+    await (migration = migration || migrateLegacyLog());
+    await appendLogs([action]);
+  });
+  appendQueue = write.catch(() => undefined);
+
   try {
-    const logs = await loadTradingLogs();
-    logs.push(action);
-    await saveTradingLogs(logs);
+    await write;
     return true;
   } catch (error) {
     console.error("Error logging trading action:", error);
@@ -40,44 +214,126 @@ export async function logTradingAction(action: TradingLog): Promise<boolean> {
   }
 }
 
+function getDatesInRange(startDate?: string, endDate?: string): string[] {
+  return Array.from(byDate.keys()).filter(
+    (date) =>
+      (!startDate || date >= startDate.slice(0, 10)) &&
+      (!endDate || date <= endDate.slice(0, 10)),
+  );
+}
+
+// Positions in `entries` of the logs matching every filter
+function findLogs(filters: TradingLogFilters): number[] {
+  const { userId, startDate, endDate, ticker, action } = filters;
+  const { messageId, sender, success, paper, account } = filters;
+
+  // Narrow down with the most selective index available, then check the
+  // remaining conditions on that subset
+  const candidates: number[][] = [];
+  if (userId) candidates.push(byUser.get(userId) || []);
+  if (ticker) candidates.push(byTicker.get(ticker.toUpperCase()) || []);
+  if (startDate || endDate) {
+    candidates.push(
+      getDatesInRange(startDate, endDate).flatMap(
+        (date) => byDate.get(date) || [],
+      ),
+    );
+  }
+
+  const smallest = candidates.sort((a, b) => a.length - b.length)[0];
+  const positions = smallest || entries.map((_, i) => i);
+
+  return positions.filter((i) => {
+    const log = entries[i];
+    return (
+      (!userId || log.userId === userId) &&
+      (!startDate || log.timestamp >= startDate) &&
+      (!endDate || log.timestamp <= endDate) &&
+      (!ticker || log.ticker.toUpperCase() === ticker.toUpperCase()) &&
+      (!action || log.action === action) &&
+      (!messageId || log.messageId === messageId) &&
+      (!sender || log.sender?.toLowerCase() === sender.toLowerCase()) &&
+      (success === undefined || log.success === success) &&
+      (paper === undefined || !!log.paper === paper) &&
+      (!account || log.account === account)
+    );
+  });
+}
+
 export async function getTradingLogs(
-  userId?: string,
-  startDate?: string,
-  endDate?: string,
-  ticker?: string,
-  action?: "buy" | "sell",
+  filters: TradingLogFilters = {},
 ): Promise<TradingLog[]> {
   try {
-    let logs = await loadTradingLogs();
+    await syncHistory();
+    return findLogs(filters)
+      .map((i) => entries[i])
+      .sort(
+        (a, b) =>
+          new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime(),
+      );
+  } catch (error) {
+    console.error("Error getting trading logs:", error);
+    return [];
+  }
+}
 
-    if (userId) {
-      logs = logs.filter((log) => log.userId === userId);
-    }
+type CursorValue = [string | number, number];
 
-    if (startDate) {
-      logs = logs.filter((log) => log.timestamp >= startDate);
-    }
+function encodeCursor(value: CursorValue): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
 
-    if (endDate) {
-      logs = logs.filter((log) => log.timestamp <= endDate);
-    }
+function decodeCursor(cursor: string): CursorValue | null {
+  try {
+    const value = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    return Array.isArray(value) && value.length === 2
+      ? (value as CursorValue)
+      : null;
+  } catch {
+    return null;
+  }
+}
 
-    if (ticker) {
-      logs = logs.filter(
-        (log) => log.ticker.toLowerCase() === ticker.toLowerCase(),
-      );
-    }
+/**
+ * One page of history. The cursor records the sort value and position of the
+ * last log returned, so entries logged while paging don't shift later pages.
+ * Throws on a malformed cursor.
+ */
+export async function queryTradingLogs(
+  query: TradingHistoryQuery,
+): Promise<TradingHistoryPage> {
+  const { sortBy = "timestamp", order = "desc", cursor, ...rest } = query;
+  const { limit: requestedLimit = DEFAULT_PAGE_SIZE, ...filters } = rest;
+  const limit = Math.min(Math.max(requestedLimit, 1), MAX_PAGE_SIZE);
 
-    if (action) {
-      logs = logs.filter((log) => log.action === action);
-    }
+  await syncHistory();
 
-    return logs.sort(
-      (a, b) =>
-        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime(),
-    );
-  } catch (error) {
-    console.error("Error getting trading logs:", error);
-    return [];
+  const direction = order === "asc" ? 1 : -1;
+  const compare = (a: CursorValue, b: CursorValue) => {
+    const [valueA, positionA] = a;
+    const [valueB, positionB] = b;
+    if (valueA !== valueB) return (valueA < valueB ? -1 : 1) * direction;
+    return (positionA - positionB) * direction;
+  };
+
+  const keyed = findLogs(filters)
+    .map((i): CursorValue => [entries[i][sortBy], i])
+    .sort(compare);
+
+  let start = 0;
+  if (cursor) {
+    const after = decodeCursor(cursor);
+    if (!after) throw new Error("Invalid cursor");
+    start = keyed.findIndex((key) => compare(key, after) > 0);
+    if (start === -1) start = keyed.length;
   }
+
+  const page = keyed.slice(start, start + limit);
+  const hasMore = start + limit < keyed.length;
+
+  return {
+    logs: page.map(([, i]) => entries[i]),
+    nextCursor: hasMore ? encodeCursor(page[page.length - 1]) : null,
+    total: keyed.length,
+  };
 }
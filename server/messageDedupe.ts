@@ -0,0 +1,116 @@
+import type { TradingMessage } from "../app/types";
+
+interface RecentMessage {
+  message: TradingMessage;
+  exactKey: string;
+  tickersKey: string;
+  bigrams: Map<string, number>;
+  receivedAt: number;
+}
+
+export interface DuplicateMatch {
+  original: TradingMessage;
+  kind: "exact" | "near";
+  similarity: number;
+}
+
+let recentMessages: RecentMessage[] = [];
+
+function getNumberEnv(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || "");
+  return isNaN(value) || value <= 0 ? fallback : value;
+}
+
+export function getDuplicateMode(): "merge" | "drop" {
+  return process.env.MESSAGE_DUPLICATE_MODE === "drop" ? "drop" : "merge";
+}
+
+function normalizeText(text: string | undefined): string {
+  return (text || "").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function getBigrams(text: string): Map<string, number> {
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const bigram = text.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+  }
+  return bigrams;
+}
+
+// Sørensen–Dice coefficient over character bigrams: 1 for identical text,
+// tolerant of small edits like added punctuation or a reworded word
+function diceSimilarity(a: Map<string, number>, b: Map<string, number>) {
+  let sizeA = 0;
+  let sizeB = 0;
+  let overlap = 0;
+
+  a.forEach((count, bigram) => {
+    sizeA += count;
+    overlap += Math.min(count, b.get(bigram) || 0);
+  });
+  b.forEach((count) => {
+    sizeB += count;
+  });
+
+  return sizeA + sizeB === 0 ? 1 : (2 * overlap) / (sizeA + sizeB);
+}
+
+function describe(message: TradingMessage) {
+  const text = normalizeText(`${message.title || ""} ${message.content || ""}`);
+  return {
+    exactKey: [
+      normalizeText(message.sender),
+      normalizeText(message.name),
+      text,
+    ].join("|"),
+    tickersKey: message.tickers
+      .map((ticker) => ticker.toUpperCase())
+      .sort()
+      .join(","),
+    bigrams: getBigrams(text),
+  };
+}
+
+function pruneExpired(now: number) {
+  const windowMs = getNumberEnv("MESSAGE_DEDUPE_WINDOW_MS", 30000);
+  recentMessages = recentMessages.filter(
+    (recent) => now - recent.receivedAt < windowMs,
+  );
+}
+
+/**
+ * Looks for an earlier message in the dedupe window that this one repeats:
+ * either the same sender/name/text, or the same tickers with text at least
+ * MESSAGE_SIMILARITY_THRESHOLD similar.
+ */
+export function findDuplicate(message: TradingMessage): DuplicateMatch | null {
+  pruneExpired(Date.now());
+
+  const { exactKey, tickersKey, bigrams } = describe(message);
+  const threshold = getNumberEnv("MESSAGE_SIMILARITY_THRESHOLD", 0.85);
+  let best: DuplicateMatch | null = null;
+
+  for (const recent of recentMessages) {
+    if (recent.exactKey === exactKey) {
+      return { original: recent.message, kind: "exact", similarity: 1 };
+    }
+
+    if (recent.tickersKey !== tickersKey) continue;
+
+    const similarity = diceSimilarity(recent.bigrams, bigrams);
+    if (similarity >= threshold && (!best || similarity > best.similarity)) {
+      best = { original: recent.message, kind: "near", similarity };
+    }
+  }
+
+  return best;
+}
+
+export function trackMessage(message: TradingMessage): void {
+  recentMessages.push({
+    message,
+    ...describe(message),
+    receivedAt: Date.now(),
+  });
+}
@@ -0,0 +1,90 @@
+import { promises as fs } from "fs";
+import { join } from "path";
+import type { TradingMessage } from "../app/types";
+import { ensureDataDirectory } from "./logger";
+
+const MESSAGES_FILE = join(process.cwd(), "data", "messages.jsonl");
+// Only the most recent messages are kept in memory for replays
+const MAX_REPLAY_MESSAGES = 1000;
+
+let lastSeq = 0;
+let recentMessages: TradingMessage[] = [];
+let appendQueue: Promise<void> = Promise.resolve();
+
+export function getLastSeq(): number {
+  return lastSeq;
+}
+
+export async function loadMessageStore(): Promise<void> {
+  try {
+    const data = await fs.readFile(MESSAGES_FILE, "utf-8");
+    const messages: TradingMessage[] = [];
+
+    data.split("\n").forEach((line) => {
+      if (!line.trim()) return;
+      try {
+        messages.push(JSON.parse(line));
+      } catch {
+        console.warn("Skipping corrupt line in message store");
+      }
+    });
+
+    recentMessages = [...messages, ...recentMessages].slice(
+      -MAX_REPLAY_MESSAGES,
+    );
+    lastSeq = messages.reduce(
+      (max, message) => Math.max(max, message.seq || 0),
+      lastSeq,
+    );
+    console.log(`Message store loaded, last sequence ${lastSeq}`);
+  } catch {
+    // No messages yet
+  }
+}
+
+/**
+ * Assigns the next sequence number and appends the message to disk. The
+ * sequence is assigned synchronously so broadcast order always matches it.
+ */
+export function storeMessage(message: TradingMessage): TradingMessage {
+  const stored: TradingMessage = { ...message, seq: ++lastSeq };
+
+  recentMessages.push(stored);
+  if (recentMessages.length > MAX_REPLAY_MESSAGES) {
+    recentMessages = recentMessages.slice(-MAX_REPLAY_MESSAGES);
+  }
+
+  appendQueue = appendQueue
+    .then(async () => {
+      await ensureDataDirectory();
+      await fs.appendFile(MESSAGES_FILE, JSON.stringify(stored) + "\n");
+    })
+    .catch((error) => {
+      console.error("Error persisting message:", error);
+    });
+
+  return stored;
+}
+
+function getStaleAfterMs(): number {
+  const staleAfter = parseInt(process.env.MESSAGE_STALE_AFTER_MS || "", 10);
+  return isNaN(staleAfter) || staleAfter <= 0 ? 2 * 60 * 1000 : staleAfter;
+}
+
+/**
+ * Messages broadcast after `since`, flagged as replayed. Ones older than
+ * MESSAGE_STALE_AFTER_MS are also flagged stale so clients can list them
+ * instead of popping them up.
+ */
+export function getMessagesSince(since: number): TradingMessage[] {
+  const now = Date.now();
+  const staleAfter = getStaleAfterMs();
+
+  return recentMessages
+    .filter((message) => (message.seq || 0) > since)
+    .map((message) => ({
+      ...message,
+      replayed: true,
+      stale: now - new Date(message.timestamp || 0).getTime() > staleAfter,
+    }));
+}
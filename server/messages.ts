@@ -0,0 +1,134 @@
+import type { TradingMessage } from "../app/types";
+import { findDuplicate, getDuplicateMode, trackMessage } from "./messageDedupe";
+import { storeMessage } from "./messageStore";
+import { tradingMessageSchema, validate } from "./validation";
+import type { TradingServer } from "./websocket.server";
+
+export type PreparedMessage =
+  | { status: "ok"; message: TradingMessage }
+  | { status: "invalid"; error: string; message: string }
+  | { status: "skipped"; reason: string };
+
+/**
+ * Validates an incoming message and fills in its id and timestamp. Every
+ * ingestion path (socket, HTTP webhook, message sources) goes through here so
+ * they all accept exactly the same messages.
+ */
+export function prepareTradingMessage(payload: unknown): PreparedMessage {
+  // Webhooks and feeds hand us whatever JSON they were sent
+  const result = validate(tradingMessageSchema, payload);
+  if (!result.success) {
+    return {
+      status: "invalid",
+      error: "Invalid message format",
+      message: result.issues
+        .map((issue) => `${issue.path}: ${issue.message}`)
+        .join("; "),
+    };
+  }
+  const message = result.data;
+
+  // Validate message structure
+  if (!message.sender || !message.name || !message.tickers?.length) {
+    return {
+      status: "invalid",
+      error: "Invalid message format",
+      message: "Missing required fields: sender, name, or tickers",
+    };
+  }
+
+  // Check if message should be sent (title or content present)
+  const hasTitle = message.title && message.title.trim() !== "";
+  const hasContent = message.content && message.content.trim() !== "";
+
+  if (!hasTitle && !hasContent) {
+    return { status: "skipped", reason: "no title or content" };
+  }
+
+  // Generate unique message ID if not provided
+  const messageId =
+    message.id ||
+    `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+  // Add timestamp and ID if not present
+  return {
+    status: "ok",
+    message: {
+      ...message,
+      id: messageId,
+      timestamp: message.timestamp || new Date().toISOString(),
+    },
+  };
+}
+
+export type BroadcastResult =
+  | { status: "broadcast"; id: string }
+  | { status: "duplicate"; id: string; duplicateOf: string };
+
+export type IngestResult =
+  | BroadcastResult
+  | Exclude<PreparedMessage, { status: "ok" }>;
+
+export function broadcastTradingMessage(
+  io: TradingServer,
+  message: TradingMessage,
+): BroadcastResult {
+  // Feeds often repost the same alert; bump the original's counter instead of
+  // popping up another copy
+  const duplicate = findDuplicate(message);
+  if (duplicate) {
+    const { original } = duplicate;
+    console.log(
+      `Duplicate of ${original.id} (${duplicate.kind}, ${duplicate.similarity.toFixed(2)}) ${
+        getDuplicateMode() === "drop" ? "dropped" : "merged"
+      }`,
+    );
+
+    if (getDuplicateMode() === "merge") {
+      original.seenCount = (original.seenCount || 1) + 1;
+      io.emit("trading_message_update", {
+        id: original.id,
+        seq: original.seq,
+        seenCount: original.seenCount,
+        lastSeenAt: new Date().toISOString(),
+      });
+    }
+
+    return { status: "duplicate", id: message.id, duplicateOf: original.id };
+  }
+
+  // Persist first so the broadcast carries its sequence number, which clients
+  // hand back on reconnect to catch up on anything they missed
+  const stored = storeMessage(message);
+  trackMessage(stored);
+
+  // Broadcast to all connected clients
+  io.emit("trading_message", stored);
+
+  console.log(`Message broadcasted with ID: ${stored.id} (seq ${stored.seq})`);
+  return { status: "broadcast", id: stored.id };
+}
+
+/**
+ * Validates and broadcasts a message from a non-socket origin, logging
+ * anything that gets dropped.
+ */
+export function ingestTradingMessage(
+  io: TradingServer,
+  message: unknown,
+  origin: string,
+): IngestResult {
+  const prepared = prepareTradingMessage(message);
+
+  if (prepared.status === "ok") {
+    return broadcastTradingMessage(io, prepared.message);
+  }
+
+  if (prepared.status === "skipped") {
+    console.log(`Message from ${origin} not sent - ${prepared.reason}`);
+  } else {
+    console.warn(`Invalid message from ${origin}: ${prepared.message}`);
+  }
+
+  return prepared;
+}
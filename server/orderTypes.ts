@@ -0,0 +1,87 @@
+import type { TradingAction } from "../app/types";
+import { getLastPrice } from "./prices";
+
+function getDefaultMarketableOffset(): number {
+  const offset = parseFloat(process.env.MARKETABLE_LIMIT_OFFSET_PERCENT || "");
+  return isNaN(offset) || offset < 0 ? 0.5 : offset;
+}
+
+// Cents above a dollar, hundredths of a cent below
+export function roundPrice(price: number): number {
+  const factor = price >= 1 ? 100 : 10000;
+  return Math.round(price * factor) / factor;
+}
+
+function priceFromLast(
+  action: TradingAction,
+  offsetPercent: number,
+): number | null {
+  const last = getLastPrice(action.ticker);
+  if (last === undefined) return null;
+
+  const direction = action.action === "buy" ? 1 : -1;
+  return roundPrice(last * (1 + (direction * offsetPercent) / 100));
+}
+
+/**
+ * Fills in the limit or stop price an order type needs, from the last price
+ * and `offsetPercent` when it wasn't given. Marketable limits default to
+ * MARKETABLE_LIMIT_OFFSET_PERCENT through the last price so they fill like a
+ * market order but with a ceiling. Returns a reason when the order can't be
+ * priced.
+ */
+export function priceOrder(action: TradingAction): TradingAction | string {
+  const orderType = action.orderType || "market";
+  const timeInForce = action.timeInForce || "day";
+
+  switch (orderType) {
+    case "market":
+      return {
+        ...action,
+        orderType,
+        timeInForce,
+        limitPrice: undefined,
+        stopPrice: undefined,
+      };
+
+    case "limit":
+    case "marketable_limit": {
+      const offset =
+        action.offsetPercent ??
+        (orderType === "marketable_limit" ? getDefaultMarketableOffset() : 0);
+      const limitPrice = action.limitPrice ?? priceFromLast(action, offset);
+      if (!limitPrice || limitPrice <= 0) {
+        return `No limit price given and no last price for ${action.ticker}`;
+      }
+      return {
+        ...action,
+        orderType,
+        timeInForce,
+        limitPrice,
+        stopPrice: undefined,
+      };
+    }
+
+    case "stop": {
+      // A stop at the last price would trigger straight away
+      if (action.stopPrice === undefined && !action.offsetPercent) {
+        return "Stop orders need a stop price or an offset";
+      }
+      const stopPrice =
+        action.stopPrice ?? priceFromLast(action, action.offsetPercent!);
+      if (!stopPrice || stopPrice <= 0) {
+        return `No stop price given and no last price for ${action.ticker}`;
+      }
+      return {
+        ...action,
+        orderType,
+        timeInForce,
+        stopPrice,
+        limitPrice: undefined,
+      };
+    }
+
+    default:
+      return `Unknown order type: ${orderType}`;
+  }
+}
@@ -0,0 +1,138 @@
+import type { ReplaceOrderRequest } from "../app/types/socket";
+import {
+  cancelBracketLeg,
+  getBrackets,
+  isBracketLeg,
+  replaceBracketLeg,
+} from "./brackets";
+import {
+  cancelOutboxOrder,
+  getPendingOrders,
+  replaceOutboxOrder,
+} from "./outbox";
+import {
+  chargeOrderReplace,
+  checkOrderReplace,
+  checkOrderSize,
+  getOrderNotional,
+} from "./risk";
+
+interface OpenOrder {
+  clientOrderId: string;
+  ticker: string;
+}
+
+/**
+ * Cancels a user's open orders that match: anything still in the outbox, and
+ * bracket legs resting at the backend. Live and paper orders are kept apart.
+ * Returns how many were canceled (or had a cancel sent, for orders already on
+ * their way).
+ */
+function cancelUserOrders(
+  userId: string,
+  paper: boolean,
+  matches: (order: OpenOrder) => boolean,
+): number {
+  let canceled = 0;
+
+  getPendingOrders(userId, paper).forEach((entry) => {
+    // Legs go through their bracket so it knows they're gone
+    if (isBracketLeg(entry.clientOrderId)) return;
+    const order = {
+      clientOrderId: entry.clientOrderId,
+      ticker: entry.action.ticker,
+    };
+    if (matches(order) && cancelOutboxOrder(entry.clientOrderId)) canceled++;
+  });
+
+  getBrackets(userId, paper).forEach((bracket) => {
+    bracket.legs.forEach((leg) => {
+      const order = {
+        clientOrderId: leg.clientOrderId,
+        ticker: bracket.ticker,
+      };
+      if (matches(order) && cancelBracketLeg(leg.clientOrderId)) canceled++;
+    });
+  });
+
+  return canceled;
+}
+
+// Multi-quantity orders and bracket legs extend the original order's id
+export function cancelOrderById(
+  userId: string,
+  paper: boolean,
+  clientOrderId: string,
+): number {
+  return cancelUserOrders(
+    userId,
+    paper,
+    (order) =>
+      order.clientOrderId === clientOrderId ||
+      order.clientOrderId.startsWith(`${clientOrderId}-`),
+  );
+}
+
+export function cancelOrdersForTickers(
+  userId: string,
+  paper: boolean,
+  tickers?: string[],
+): number {
+  const symbols = tickers?.map((ticker) => ticker.toUpperCase());
+  return cancelUserOrders(
+    userId,
+    paper,
+    (order) => !symbols || symbols.includes(order.ticker.toUpperCase()),
+  );
+}
+
+/**
+ * Changes the size or price of one of the user's open orders. Returns a
+ * reason when it can't be changed.
+ */
+export function replaceUserOrder(
+  userId: string,
+  paper: boolean,
+  request: ReplaceOrderRequest,
+): string | null {
+  const { clientOrderId, ...changes } = request;
+  if (Object.values(changes).every((value) => value === undefined)) {
+    return "Nothing to change";
+  }
+
+  const ownsLeg = getBrackets(userId, paper).some((bracket) =>
+    bracket.legs.some((leg) => leg.clientOrderId === clientOrderId),
+  );
+  if (ownsLeg) return replaceBracketLeg(clientOrderId, changes);
+
+  const entry = getPendingOrders(userId, paper).find(
+    (pending) => pending.clientOrderId === clientOrderId,
+  );
+  if (!entry) return "Order is no longer open";
+
+  const { account } = entry.action;
+  const after = {
+    ...entry.order,
+    ...Object.fromEntries(
+      Object.entries(changes).filter(([, value]) => value !== undefined),
+    ),
+  };
+
+  // Paper orders only ever face the size limit, as when they were placed
+  if (paper) {
+    const rejection = checkOrderSize(after.ticker, after.shares, account);
+    return rejection
+      ? `Risk check: ${rejection}`
+      : replaceOutboxOrder(clientOrderId, changes);
+  }
+
+  // Orders restored after a restart weren't charged to today's usage
+  const charged = entry.chargedNotional ?? 0;
+  const rejection = checkOrderReplace(userId, account, charged, after);
+  if (rejection) return `Risk check: ${rejection}`;
+
+  const notional = getOrderNotional(after, account);
+  const error = replaceOutboxOrder(clientOrderId, changes, notional);
+  if (!error) chargeOrderReplace(userId, account, charged, notional);
+  return error;
+}
@@ -0,0 +1,442 @@
+import { promises as fs } from "fs";
+import { join } from "path";
+import type {
+  OrderStatus,
+  OrderStatusUpdate,
+  TradingAction,
+} from "../app/types";
+import {
+  cancelOrder,
+  onBackendConnected,
+  onBackendExecution,
+  replaceOrder,
+  setWorkingOrdersProvider,
+  submitOrder,
+  type BackendExecution,
+  type BackendOrder,
+  type OrderChanges,
+} from "./backend";
+import { ensureDataDirectory } from "./logger";
+import { submitPaperOrder } from "./paper";
+import { isTradingHalted, onTradingHaltChange } from "./tradingHalt";
+
+const OUTBOX_FILE = join(process.cwd(), "data", "outbox.json");
+
+export interface OutboxEntry {
+  clientOrderId: string;
+  userId: string;
+  action: TradingAction;
+  order: BackendOrder;
+  status: OrderStatus;
+  attempts: number;
+  createdAt: string;
+  updatedAt: string;
+  nextAttemptAt: number;
+  error?: string;
+  // Sent to the paper engine instead of the backend
+  paper?: boolean;
+  // Retried until it gets through instead of expiring. Bracket exits use
+  // this: a filled entry mustn't be left without them.
+  noExpiry?: boolean;
+  // Average price of the fills so far, when the backend reports them
+  fillPrice?: number;
+  filledShares?: number;
+  // Notional charged against the user's risk limits, released as is if the
+  // order ends without filling
+  chargedNotional?: number;
+}
+
+export interface OrderFill {
+  shares: number;
+  price?: number;
+}
+
+type OrderStatusListener = (entry: OutboxEntry) => void;
+type OrderFillListener = (entry: OutboxEntry, fill: OrderFill) => void;
+
+const entries = new Map<string, OutboxEntry>();
+const resolvers = new Map<string, (entry: OutboxEntry) => void>();
+const inFlight = new Set<string>();
+let statusListener: OrderStatusListener | null = null;
+let fillListener: OrderFillListener | null = null;
+let flushTimer: NodeJS.Timeout | null = null;
+let persistQueue: Promise<void> = Promise.resolve();
+
+function getNumberEnv(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return isNaN(value) || value <= 0 ? fallback : value;
+}
+
+function getMaxAgeMs(): number {
+  return getNumberEnv("OUTBOX_MAX_AGE_MS", 30000);
+}
+
+function getRetryDelayMs(attempts: number): number {
+  const base = getNumberEnv("OUTBOX_RETRY_BASE_MS", 500);
+  const max = getNumberEnv("OUTBOX_RETRY_MAX_MS", 5000);
+  return Math.min(base * 2 ** Math.max(attempts - 1, 0), max);
+}
+
+// When a queued entry gives up on reaching the backend
+function getExpiresAt(entry: OutboxEntry): number {
+  return entry.noExpiry
+    ? Infinity
+    : new Date(entry.createdAt).getTime() + getMaxAgeMs();
+}
+
+function isFinal(status: OrderStatus): boolean {
+  return (
+    status === "acked" ||
+    status === "rejected" ||
+    status === "expired" ||
+    status === "canceled"
+  );
+}
+
+export function toOrderStatusUpdate(entry: OutboxEntry): OrderStatusUpdate {
+  return {
+    clientOrderId: entry.clientOrderId,
+    status: entry.status,
+    action: entry.action.action,
+    ticker: entry.action.ticker,
+    shares: entry.action.shares,
+    attempts: entry.attempts,
+    createdAt: entry.createdAt,
+    updatedAt: entry.updatedAt,
+    messageId: entry.action.messageId,
+    error: entry.error,
+    orderType: entry.order.orderType,
+    limitPrice: entry.order.limitPrice,
+    stopPrice: entry.order.stopPrice,
+    paper: entry.paper,
+    filledShares: entry.filledShares,
+    fillPrice: entry.fillPrice,
+  };
+}
+
+function persistOutbox(): Promise<void> {
+  // Writes are chained so concurrent status changes can't interleave and
+  // leave a half-written file behind.
+  persistQueue = persistQueue
+    .then(async () => {
+      await ensureDataDirectory();
+      const pending = Array.from(entries.values());
+      const tempFile = `${OUTBOX_FILE}.tmp`;
+      await fs.writeFile(tempFile, JSON.stringify(pending, null, 2));
+      await fs.rename(tempFile, OUTBOX_FILE);
+    })
+    .catch((error) => {
+      console.error("Error persisting order outbox:", error);
+    });
+  return persistQueue;
+}
+
+function updateEntry(
+  entry: OutboxEntry,
+  status: OrderStatus,
+  error?: string,
+): void {
+  entry.status = status;
+  entry.error = error;
+  entry.updatedAt = new Date().toISOString();
+
+  if (isFinal(status)) {
+    entries.delete(entry.clientOrderId);
+  }
+
+  persistOutbox();
+  statusListener?.(entry);
+
+  // A working order has its answer, though it stays open until it fills
+  if (isFinal(status) || status === "working") {
+    const resolve = resolvers.get(entry.clientOrderId);
+    resolvers.delete(entry.clientOrderId);
+    resolve?.(entry);
+  }
+}
+
+// Books a fill; the order keeps working until all its shares have filled
+function fillEntry(entry: OutboxEntry, price?: number, shares?: number): void {
+  const filledBefore = entry.filledShares || 0;
+  const remaining = entry.order.shares - filledBefore;
+  const filled = Math.min(shares ?? remaining, remaining);
+  entry.filledShares = filledBefore + filled;
+  if (price !== undefined) {
+    entry.fillPrice =
+      entry.fillPrice === undefined
+        ? price
+        : (entry.fillPrice * filledBefore + price * filled) /
+          entry.filledShares;
+  }
+
+  fillListener?.(entry, { shares: filled, price });
+  updateEntry(entry, filled < remaining ? "working" : "acked");
+}
+
+async function attemptDelivery(entry: OutboxEntry): Promise<void> {
+  if (inFlight.has(entry.clientOrderId)) return;
+
+  if (Date.now() >= getExpiresAt(entry)) {
+    updateEntry(
+      entry,
+      "expired",
+      entry.error
+        ? `Expired before reaching backend: ${entry.error}`
+        : "Expired before reaching backend",
+    );
+    return;
+  }
+
+  // Nothing leaves while trading is halted; the order keeps its place until
+  // trading resumes or it ages out. Paper orders never leave.
+  if (isTradingHalted() && !entry.paper) return;
+
+  inFlight.add(entry.clientOrderId);
+  entry.attempts++;
+  updateEntry(entry, "sent");
+
+  try {
+    const ack = entry.paper
+      ? await submitPaperOrder(entry.order)
+      : await submitOrder(entry.order);
+    if (ack.status === "acked" && ack.filled) {
+      fillEntry(entry, ack.price, ack.shares);
+    } else {
+      // Anything acked without filling rests until its fill is reported
+      updateEntry(
+        entry,
+        ack.status === "acked" ? "working" : ack.status,
+        ack.status === "rejected"
+          ? ack.reason || "Order rejected by backend"
+          : ack.status === "canceled"
+            ? ack.reason || "Canceled by user"
+            : undefined,
+      );
+    }
+  } catch (error) {
+    entry.nextAttemptAt = Date.now() + getRetryDelayMs(entry.attempts);
+    updateEntry(
+      entry,
+      "queued",
+      error instanceof Error ? error.message : "Unknown error",
+    );
+  } finally {
+    inFlight.delete(entry.clientOrderId);
+    scheduleFlush();
+  }
+}
+
+function scheduleFlush(): void {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+
+  // While halted only expiries are due; retries wait for the resume flush
+  const halted = isTradingHalted();
+  let nextRunAt = Infinity;
+  entries.forEach((entry) => {
+    if (entry.status !== "queued") return;
+    const expiresAt = getExpiresAt(entry);
+    nextRunAt = Math.min(
+      nextRunAt,
+      halted ? expiresAt : Math.min(entry.nextAttemptAt, expiresAt),
+    );
+  });
+
+  if (nextRunAt === Infinity) return;
+
+  flushTimer = setTimeout(
+    () => {
+      flushTimer = null;
+      flushOutbox();
+    },
+    Math.max(nextRunAt - Date.now(), 0),
+  );
+}
+
+export function flushOutbox(force = false): void {
+  const now = Date.now();
+
+  entries.forEach((entry) => {
+    if (entry.status !== "queued") return;
+
+    const expired = now >= getExpiresAt(entry);
+    if (force || expired || entry.nextAttemptAt <= now) {
+      attemptDelivery(entry);
+    }
+  });
+
+  scheduleFlush();
+}
+
+export function setOrderStatusListener(listener: OrderStatusListener): void {
+  statusListener = listener;
+}
+
+export function setOrderFillListener(listener: OrderFillListener): void {
+  fillListener = listener;
+}
+
+// Fill and cancel reports for orders resting at the backend
+function handleBackendExecution(execution: BackendExecution): void {
+  const entry = entries.get(execution.clientOrderId);
+  if (!entry || entry.status !== "working") return;
+
+  if (execution.type === "fill") {
+    fillEntry(entry, execution.price, execution.shares);
+  } else {
+    updateEntry(entry, "canceled", execution.reason || "Canceled by user");
+  }
+}
+
+export function enqueueOrder(
+  userId: string,
+  action: TradingAction,
+  order: BackendOrder,
+  paper = false,
+  noExpiry = false,
+  chargedNotional?: number,
+): Promise<OutboxEntry> {
+  const now = new Date().toISOString();
+  const entry: OutboxEntry = {
+    clientOrderId: order.clientOrderId,
+    userId,
+    action,
+    order,
+    status: "queued",
+    attempts: 0,
+    createdAt: now,
+    updatedAt: now,
+    nextAttemptAt: Date.now(),
+    paper: paper || undefined,
+    noExpiry: noExpiry || undefined,
+    chargedNotional,
+  };
+
+  entries.set(entry.clientOrderId, entry);
+
+  const settled = new Promise<OutboxEntry>((resolve) => {
+    resolvers.set(entry.clientOrderId, resolve);
+  });
+
+  // Deliver straight away; the queued state only lingers if this fails.
+  statusListener?.(entry);
+  attemptDelivery(entry);
+
+  return settled;
+}
+
+/**
+ * Pulls an order back before it fills. A queued order is dropped straight
+ * away; one already sent or working gets a cancel request and settles as
+ * canceled once the backend confirms it. Returns false if there was nothing
+ * to cancel.
+ */
+export function cancelOutboxOrder(clientOrderId: string): boolean {
+  const entry = entries.get(clientOrderId);
+  if (!entry) return false;
+
+  // The paper engine answers within its latency; there's nothing to pull
+  if (entry.status === "sent" || entry.status === "working") {
+    return !entry.paper && cancelOrder(clientOrderId, entry.order.account);
+  }
+
+  updateEntry(entry, "canceled", "Canceled by user");
+  scheduleFlush();
+  return true;
+}
+
+/**
+ * Amends an open order. One still waiting to go out is changed in place; one
+ * already sent or working gets a replace request, and the backend reports
+ * any fills against the new terms. Returns a reason when it can't be changed.
+ */
+export function replaceOutboxOrder(
+  clientOrderId: string,
+  changes: OrderChanges,
+  chargedNotional?: number,
+): string | null {
+  const entry = entries.get(clientOrderId);
+  if (!entry) return "Order is no longer open";
+  const atBackend = entry.status === "sent" || entry.status === "working";
+  // The paper engine answers within its latency; there's nothing to amend
+  if (atBackend && entry.paper) {
+    return "Paper orders can't be changed once sent";
+  }
+
+  const { orderType } = entry.order;
+  if (
+    changes.limitPrice !== undefined &&
+    orderType !== "limit" &&
+    orderType !== "marketable_limit"
+  ) {
+    return "Only limit orders have a limit price";
+  }
+  if (changes.stopPrice !== undefined && orderType !== "stop") {
+    return "Only stop orders have a stop price";
+  }
+  if (
+    changes.shares !== undefined &&
+    changes.shares <= (entry.filledShares || 0)
+  ) {
+    return `${entry.filledShares} shares have already filled`;
+  }
+  if (atBackend && !replaceOrder(clientOrderId, changes, entry.order.account)) {
+    return "Backend connection is not open";
+  }
+
+  const defined = Object.fromEntries(
+    Object.entries(changes).filter(([, value]) => value !== undefined),
+  );
+  entry.action = { ...entry.action, ...defined };
+  entry.order = { ...entry.order, ...defined };
+  if (chargedNotional !== undefined) entry.chargedNotional = chargedNotional;
+  entry.updatedAt = new Date().toISOString();
+
+  persistOutbox();
+  statusListener?.(entry);
+  return null;
+}
+
+export function getPendingOrders(userId: string, paper = false): OutboxEntry[] {
+  return Array.from(entries.values()).filter(
+    (entry) => entry.userId === userId && !!entry.paper === paper,
+  );
+}
+
+export async function loadOutbox(): Promise<void> {
+  try {
+    const data = await fs.readFile(OUTBOX_FILE, "utf-8");
+    const pending: OutboxEntry[] = JSON.parse(data);
+
+    pending.forEach((entry) => {
+      // Anything that was mid-flight when we stopped is retried; the backend
+      // dedupes on clientOrderId. Working orders are already resting there.
+      // Risk usage starts afresh, so nothing restored is charged against it.
+      entries.set(entry.clientOrderId, {
+        ...entry,
+        status: entry.status === "working" ? "working" : "queued",
+        chargedNotional: undefined,
+      });
+    });
+
+    if (pending.length > 0) {
+      console.log(`Restored ${pending.length} order(s) from outbox`);
+    }
+  } catch {
+    // No outbox yet
+  }
+
+  setWorkingOrdersProvider(() =>
+    Array.from(entries.values())
+      .filter((entry) => entry.status === "working" && !entry.paper)
+      .map((entry) => entry.order),
+  );
+  onBackendConnected(() => flushOutbox(true));
+  onBackendExecution(handleBackendExecution);
+  onTradingHaltChange((state) => {
+    if (!state.halted) flushOutbox(true);
+  });
+  flushOutbox();
+}
@@ -0,0 +1,137 @@
+import type { PaperAccount, TradingLog } from "../app/types";
+import type { BackendAck, BackendOrder } from "./backend";
+import { getTradingLogs } from "./logger";
+import { roundPrice } from "./orderTypes";
+import { getLastPrice } from "./prices";
+
+const accounts = new Map<string, PaperAccount>();
+let loading: Promise<void> | null = null;
+
+function getNumberEnv(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || "");
+  return isNaN(value) || value < 0 ? fallback : value;
+}
+
+function getSlippageBps(): number {
+  return getNumberEnv("PAPER_SLIPPAGE_BPS", 5);
+}
+
+function getLatencyMs(): number {
+  return getNumberEnv("PAPER_LATENCY_MS", 50);
+}
+
+function getStartingCash(): number {
+  return getNumberEnv("PAPER_STARTING_CASH", 100000);
+}
+
+// PAPER_USERS lists users who can't trade live; "*" covers everyone
+export function isPaperOnlyUser(userId: string): boolean {
+  const users = (process.env.PAPER_USERS || "")
+    .split(",")
+    .map((user) => user.trim())
+    .filter(Boolean);
+  return users.includes("*") || users.includes(userId);
+}
+
+/**
+ * The price a paper order fills at right now, or why it can't. Orders fill
+ * immediately or not at all: market orders and marketable limits at the last
+ * price plus slippage (capped at the limit), stops only once the last price
+ * has reached them.
+ */
+function getFillPrice(order: BackendOrder): number | string {
+  const last = getLastPrice(order.ticker);
+  if (last === undefined) {
+    return `No last price for ${order.ticker} to fill against`;
+  }
+
+  const isBuy = order.type.toLowerCase() === "buy";
+  const direction = isBuy ? 1 : -1;
+  const slipped = last * (1 + (direction * getSlippageBps()) / 10000);
+
+  switch (order.orderType) {
+    case "limit":
+    case "marketable_limit": {
+      const limit = order.limitPrice!;
+      if (isBuy ? last > limit : last < limit) {
+        return `Limit ${limit} isn't marketable at ${last}; paper orders don't rest`;
+      }
+      return roundPrice(
+        isBuy ? Math.min(slipped, limit) : Math.max(slipped, limit),
+      );
+    }
+
+    case "stop": {
+      const stop = order.stopPrice!;
+      if (isBuy ? last < stop : last > stop) {
+        return `Stop ${stop} not reached at ${last}; paper orders don't rest`;
+      }
+      return roundPrice(slipped);
+    }
+
+    default:
+      return roundPrice(slipped);
+  }
+}
+
+/**
+ * Stands in for the backend: answers after PAPER_LATENCY_MS with a fill at
+ * the then-current price (the ack carries it), or a reject.
+ */
+export function submitPaperOrder(order: BackendOrder): Promise<BackendAck> {
+  return new Promise((resolve) => {
+    setTimeout(() => {
+      const price = getFillPrice(order);
+      resolve({
+        clientOrderId: order.clientOrderId,
+        status: typeof price === "number" ? "acked" : "rejected",
+        filled: typeof price === "number",
+        reason: typeof price === "string" ? price : undefined,
+        price: typeof price === "number" ? price : undefined,
+        timestamp: new Date().toISOString(),
+      });
+    }, getLatencyMs());
+  });
+}
+
+function getAccount(userId: string): PaperAccount {
+  let account = accounts.get(userId);
+  if (!account) {
+    const startingCash = getStartingCash();
+    account = {
+      startingCash,
+      cash: startingCash,
+      updatedAt: new Date().toISOString(),
+    };
+    accounts.set(userId, account);
+  }
+  return account;
+}
+
+function applyFill(account: PaperAccount, log: TradingLog): void {
+  if (!log.success || log.price === undefined) return;
+  const direction = log.action === "buy" ? -1 : 1;
+  account.cash += direction * log.shares * log.quantity * log.price;
+  account.updatedAt = log.timestamp;
+}
+
+// Rebuilds every paper account from the paper fills in the history
+export function loadPaperAccounts(): Promise<void> {
+  loading =
+    loading ||
+    getTradingLogs({ paper: true }).then((logs) => {
+      // History comes back newest first
+      logs.reverse().forEach((log) => applyFill(getAccount(log.userId), log));
+    });
+  return loading;
+}
+
+export function recordPaperFill(log: TradingLog): PaperAccount {
+  const account = getAccount(log.userId);
+  applyFill(account, log);
+  return account;
+}
+
+export function getPaperAccount(userId: string): PaperAccount {
+  return getAccount(userId);
+}
@@ -0,0 +1,50 @@
+import type { Position, TradingLog } from "../app/types";
+import {
+  applyTrade,
+  buildPositions,
+  getOpenPositions,
+  type PositionLedger,
+} from "../app/utils/positions";
+import { getTradingLogs } from "./logger";
+
+const ledgers = new Map<string, PositionLedger>();
+let loading: Promise<void> | null = null;
+
+// Paper fills build a separate set of positions for the same user
+const getLedgerKey = (userId: string, paper?: boolean) =>
+  paper ? `${userId}:paper` : userId;
+
+/**
+ * Rebuilds every user's positions from the trading history. Trades must not
+ * be recorded until this settles, or they'd be counted twice.
+ */
+export function loadPositions(): Promise<void> {
+  loading =
+    loading ||
+    getTradingLogs().then((logs) => {
+      const byLedger = new Map<string, TradingLog[]>();
+      // History comes back newest first
+      logs.reverse().forEach((log) => {
+        const key = getLedgerKey(log.userId, log.paper);
+        const ledgerLogs = byLedger.get(key) || [];
+        ledgerLogs.push(log);
+        byLedger.set(key, ledgerLogs);
+      });
+      byLedger.forEach((ledgerLogs, key) => {
+        ledgers.set(key, buildPositions(ledgerLogs));
+      });
+      console.log(`Positions loaded for ${byLedger.size} account(s)`);
+    });
+  return loading;
+}
+
+export function recordTrade(log: TradingLog): Position | null {
+  const key = getLedgerKey(log.userId, log.paper);
+  const ledger = ledgers.get(key) || {};
+  ledgers.set(key, ledger);
+  return applyTrade(ledger, log);
+}
+
+export function getPositions(userId: string, paper = false): Position[] {
+  return getOpenPositions(ledgers.get(getLedgerKey(userId, paper)) || {});
+}
@@ -0,0 +1,102 @@
+import { promises as fs } from "fs";
+import { resolve } from "path";
+import type { PriceTick } from "../../app/types";
+import { normalizeTick } from "./normalize";
+import type { CsvReplayFeedConfig, PriceFeed } from "./types";
+
+const DEFAULT_INTERVAL_MS = 1000;
+// Recorded gaps longer than this are cut short so a replay never stalls
+const MAX_GAP_MS = 10000;
+
+function parseCsv(text: string): PriceTick[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const [timestamp, ticker, price] = line.split(",").map((v) => v.trim());
+      return normalizeTick({
+        timestamp: timestamp || undefined,
+        ticker,
+        price,
+      });
+    })
+    .filter((tick): tick is PriceTick => tick !== null);
+}
+
+/**
+ * Replays recorded prices from a CSV file, keeping the recorded spacing
+ * (scaled by `speed`) or at a fixed interval. Ticks go out stamped with the
+ * time they're replayed, not the recorded time.
+ */
+export function createCsvReplayFeed(config: CsvReplayFeedConfig): PriceFeed {
+  const filePath = resolve(process.cwd(), config.path);
+  let timer: NodeJS.Timeout | null = null;
+  let stopped = false;
+
+  const getDelay = (previous: PriceTick | undefined, next: PriceTick) => {
+    const speed = config.speed ?? 1;
+    if (!previous || speed <= 0) {
+      return config.intervalMs ?? DEFAULT_INTERVAL_MS;
+    }
+    const gap =
+      new Date(next.timestamp).getTime() -
+      new Date(previous.timestamp).getTime();
+    return Math.min(Math.max(gap / speed, 0), MAX_GAP_MS);
+  };
+
+  const replay = (ticks: PriceTick[], publish: (tick: PriceTick) => void) => {
+    let index = 0;
+
+    const sendNext = () => {
+      if (stopped) return;
+      if (index >= ticks.length) {
+        if (!config.loop) {
+          console.log(`[${config.name}] Replay finished`);
+          return;
+        }
+        index = 0;
+      }
+
+      const tick = ticks[index];
+      publish({ ...tick, timestamp: new Date().toISOString() });
+      index++;
+
+      const next = ticks[index % ticks.length];
+      timer = setTimeout(sendNext, getDelay(tick, next));
+    };
+
+    sendNext();
+  };
+
+  return {
+    name: config.name,
+    start(publish) {
+      stopped = false;
+      fs.readFile(filePath, "utf-8")
+        .then((text) => {
+          const ticks = parseCsv(text);
+          if (ticks.length === 0) {
+            console.warn(
+              `[${config.name}] No prices in ${config.path}, nothing to replay`,
+            );
+            return;
+          }
+          console.log(
+            `[${config.name}] Replaying ${ticks.length} prices from ${config.path}`,
+          );
+          replay(ticks, (tick) => publish(tick, config.name));
+        })
+        .catch((error) => {
+          console.error(
+            `[${config.name}] Error reading ${config.path}:`,
+            error,
+          );
+        });
+    },
+    stop() {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+    },
+  };
+}
@@ -0,0 +1,79 @@
+import { promises as fs } from "fs";
+import { join } from "path";
+import type { PriceTick } from "../../app/types";
+import { createCsvReplayFeed } from "./csvReplay";
+import type { PriceFeed, PriceFeedConfig, PublishPrice } from "./types";
+import { createWebSocketPriceFeed } from "./websocket";
+
+const FEEDS_FILE = join(process.cwd(), "data", "price-feeds.json");
+
+const lastPrices = new Map<string, PriceTick>();
+
+export function recordPrice(tick: PriceTick): void {
+  lastPrices.set(tick.ticker.toUpperCase(), tick);
+}
+
+export function getLastPrice(ticker: string): number | undefined {
+  return lastPrices.get(ticker.toUpperCase())?.price;
+}
+
+export function getLastPrices(): PriceTick[] {
+  return Array.from(lastPrices.values());
+}
+
+export function createPriceFeed(config: PriceFeedConfig): PriceFeed {
+  switch (config.type) {
+    case "csv":
+      return createCsvReplayFeed(config);
+    case "websocket":
+      return createWebSocketPriceFeed(config);
+    default:
+      throw new Error(
+        `Unknown price feed type: ${(config as { type: string }).type}`,
+      );
+  }
+}
+
+export async function loadPriceFeedsConfig(): Promise<PriceFeedConfig[]> {
+  try {
+    const data = await fs.readFile(FEEDS_FILE, "utf-8");
+    return JSON.parse(data);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error("Error reading price feeds config:", error);
+    }
+    return [];
+  }
+}
+
+/**
+ * Starts every enabled feed from data/price-feeds.json. Each tick updates the
+ * last price before being handed to `publish`. Returns a function that stops
+ * them all.
+ */
+export async function startPriceFeeds(
+  publish: PublishPrice,
+): Promise<() => void> {
+  const configs = await loadPriceFeedsConfig();
+  const feeds: PriceFeed[] = [];
+
+  configs
+    .filter((config) => config.enabled !== false)
+    .forEach((config) => {
+      try {
+        const feed = createPriceFeed(config);
+        feed.start((tick, name) => {
+          recordPrice(tick);
+          publish(tick, name);
+        });
+        feeds.push(feed);
+        console.log(`Price feed started: ${config.name} (${config.type})`);
+      } catch (error) {
+        console.error(`Failed to start price feed ${config.name}:`, error);
+      }
+    });
+
+  return () => feeds.forEach((feed) => feed.stop());
+}
+
+export type { PriceFeed, PriceFeedConfig } from "./types";
@@ -0,0 +1,28 @@
+import type { PriceTick } from "../../app/types";
+
+/**
+ * Reads a tick from whatever shape a feed sends: `ticker` or `symbol`, and
+ * `price`, `last` or `p`. Returns null if there's no usable ticker or price.
+ */
+export function normalizeTick(
+  record: Record<string, unknown>,
+): PriceTick | null {
+  const ticker = record.ticker ?? record.symbol ?? record.s;
+  const price = Number(record.price ?? record.last ?? record.p);
+
+  if (typeof ticker !== "string" || !ticker.trim() || !(price > 0)) {
+    return null;
+  }
+
+  // A timestamp we can't read is replaced with now; the price is still good
+  const timestamp = record.timestamp ?? record.t;
+  const time =
+    typeof timestamp === "string" || typeof timestamp === "number"
+      ? new Date(timestamp)
+      : new Date();
+  return {
+    ticker: ticker.trim().toUpperCase(),
+    price,
+    timestamp: (isNaN(time.getTime()) ? new Date() : time).toISOString(),
+  };
+}
@@ -0,0 +1,34 @@
+import type { PriceTick } from "../../app/types";
+
+export type PublishPrice = (tick: PriceTick, feed: string) => void;
+
+export interface PriceFeed {
+  name: string;
+  start(publish: PublishPrice): void;
+  stop(): void;
+}
+
+interface BaseFeedConfig {
+  name: string;
+  enabled?: boolean;
+}
+
+export interface CsvReplayFeedConfig extends BaseFeedConfig {
+  type: "csv";
+  // Rows of timestamp,ticker,price (a header row is skipped)
+  path: string;
+  // Replay speed relative to the recorded timestamps; 0 sends every
+  // `intervalMs` instead
+  speed?: number;
+  intervalMs?: number;
+  loop?: boolean;
+}
+
+export interface WebSocketFeedConfig extends BaseFeedConfig {
+  type: "websocket";
+  url: string;
+  // Sent once the connection opens, e.g. a list of symbols
+  subscribe?: unknown;
+}
+
+export type PriceFeedConfig = CsvReplayFeedConfig | WebSocketFeedConfig;
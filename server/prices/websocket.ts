@@ -0,0 +1,80 @@
+import WebSocket from "ws";
+import { normalizeTick } from "./normalize";
+import type { PriceFeed, PublishPrice, WebSocketFeedConfig } from "./types";
+
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+/**
+ * Connects to a local WebSocket price server. Each frame holds one tick, an
+ * array of ticks, or an envelope with them under `data`.
+ */
+export function createWebSocketPriceFeed(
+  config: WebSocketFeedConfig,
+): PriceFeed {
+  let ws: WebSocket | null = null;
+  let reconnectTimer: NodeJS.Timeout | null = null;
+  let reconnectAttempts = 0;
+  let stopped = false;
+
+  const handleFrame = (data: WebSocket.RawData, publish: PublishPrice) => {
+    let frame: unknown;
+    try {
+      frame = JSON.parse(data.toString());
+    } catch {
+      console.warn(`[${config.name}] Ignoring non-JSON frame`);
+      return;
+    }
+
+    const payload =
+      frame && typeof frame === "object" && !Array.isArray(frame)
+        ? ((frame as { data?: unknown }).data ?? frame)
+        : frame;
+    const records = Array.isArray(payload) ? payload : [payload];
+
+    records
+      .filter((record) => record && typeof record === "object")
+      .forEach((record) => {
+        const tick = normalizeTick(record as Record<string, unknown>);
+        if (tick) publish(tick, config.name);
+      });
+  };
+
+  const connect = (publish: PublishPrice) => {
+    const socket = new WebSocket(config.url);
+    ws = socket;
+
+    socket.on("open", () => {
+      reconnectAttempts = 0;
+      console.log(`[${config.name}] Connected to ${config.url}`);
+      if (config.subscribe !== undefined) {
+        socket.send(JSON.stringify(config.subscribe));
+      }
+    });
+    socket.on("message", (data) => handleFrame(data, publish));
+    socket.on("error", (error) => {
+      console.error(`[${config.name}] WebSocket error:`, error.message);
+    });
+    socket.on("close", () => {
+      if (stopped) return;
+      const delay = Math.min(
+        1000 * 2 ** reconnectAttempts,
+        MAX_RECONNECT_DELAY_MS,
+      );
+      reconnectAttempts++;
+      reconnectTimer = setTimeout(() => connect(publish), delay);
+    });
+  };
+
+  return {
+    name: config.name,
+    start(publish) {
+      stopped = false;
+      connect(publish);
+    },
+    stop() {
+      stopped = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      ws?.close();
+    },
+  };
+}
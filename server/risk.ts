@@ -0,0 +1,277 @@
+import { watch, promises as fs, type FSWatcher } from "fs";
+import { basename, dirname, join } from "path";
+import type { TradingAction } from "../app/types";
+import { getAccount } from "./accounts";
+import { getLastPrice } from "./prices";
+
+const RISK_LIMITS_FILE = join(process.cwd(), "data", "risk-limits.json");
+
+interface TickerLimits {
+  maxSharesPerOrder?: number;
+  referencePrice?: number;
+}
+
+export interface RiskLimits {
+  maxSharesPerOrder: number;
+  maxOrdersPerMessage: number;
+  maxNotionalPerDay: number;
+  maxOrdersPerMinute: number;
+  blockedTickers: string[];
+  // Per-share price used to estimate notional when no better price is known
+  referencePrice: number;
+  tickers: Record<string, TickerLimits>;
+}
+
+interface RiskUsage {
+  day: string;
+  notional: number;
+  orderTimes: number[];
+  ordersByMessage: Record<string, number>;
+}
+
+const DEFAULT_RISK_LIMITS: RiskLimits = {
+  maxSharesPerOrder: 20000,
+  maxOrdersPerMessage: 10,
+  maxNotionalPerDay: 1000000,
+  maxOrdersPerMinute: 30,
+  blockedTickers: [],
+  referencePrice: 5,
+  tickers: {},
+};
+
+let limits: RiskLimits = DEFAULT_RISK_LIMITS;
+let watcher: FSWatcher | null = null;
+let reloadTimer: NodeJS.Timeout | null = null;
+const usageByAccount = new Map<string, RiskUsage>();
+
+// Ticker symbols are matched upper-case
+function withOverrides(
+  base: RiskLimits,
+  overrides: Partial<RiskLimits>,
+): RiskLimits {
+  return {
+    ...base,
+    ...overrides,
+    blockedTickers: [
+      ...base.blockedTickers,
+      ...(overrides.blockedTickers || []).map((ticker) => ticker.toUpperCase()),
+    ],
+    tickers: {
+      ...base.tickers,
+      ...Object.fromEntries(
+        Object.entries(overrides.tickers || {}).map(
+          ([ticker, tickerLimits]) => [ticker.toUpperCase(), tickerLimits],
+        ),
+      ),
+    },
+  };
+}
+
+// An account's limits are the global ones with its overrides on top
+export function getRiskLimits(account?: string): RiskLimits {
+  const overrides = account ? getAccount(account)?.riskLimits : undefined;
+  return overrides ? withOverrides(limits, overrides) : limits;
+}
+
+export async function loadRiskLimits(): Promise<void> {
+  try {
+    const data = await fs.readFile(RISK_LIMITS_FILE, "utf-8");
+    limits = withOverrides(
+      { ...DEFAULT_RISK_LIMITS, blockedTickers: [], tickers: {} },
+      JSON.parse(data) as Partial<RiskLimits>,
+    );
+    console.log("Risk limits loaded");
+  } catch (error) {
+    // Keep whatever we had; a half-saved file shouldn't drop the limits
+    console.error("Error loading risk limits, keeping previous:", error);
+  }
+}
+
+export function watchRiskLimits(): void {
+  if (watcher) return;
+
+  // Watch the directory rather than the file so saves that replace the file
+  // (most editors) keep being picked up
+  try {
+    watcher = watch(dirname(RISK_LIMITS_FILE), (_, filename) => {
+      if (filename !== basename(RISK_LIMITS_FILE)) return;
+
+      // Editors fire several events per save
+      if (reloadTimer) clearTimeout(reloadTimer);
+      reloadTimer = setTimeout(() => {
+        reloadTimer = null;
+        loadRiskLimits();
+      }, 200);
+    });
+  } catch (error) {
+    console.error("Unable to watch risk limits file:", error);
+  }
+}
+
+// Usage is counted per user in each account, against that account's limits
+function getUsage(userId: string, account: string, now: number): RiskUsage {
+  const key = `${userId}:${account}`;
+  const day = new Date(now).toISOString().slice(0, 10);
+  let usage = usageByAccount.get(key);
+
+  if (!usage || usage.day !== day) {
+    usage = { day, notional: 0, orderTimes: [], ordersByMessage: {} };
+    usageByAccount.set(key, usage);
+  }
+
+  usage.orderTimes = usage.orderTimes.filter((time) => now - time < 60000);
+  return usage;
+}
+
+// Falls back to the account's reference prices when the ticker hasn't traded
+export function estimatePrice(ticker: string, account?: string): number {
+  const limits = getRiskLimits(account);
+  return (
+    getLastPrice(ticker) ??
+    limits.tickers[ticker]?.referencePrice ??
+    limits.referencePrice
+  );
+}
+
+// The per-order share limit on its own, for orders amended after the fact
+export function checkOrderSize(
+  ticker: string,
+  shares: number,
+  account?: string,
+): string | null {
+  const limits = getRiskLimits(account);
+  const symbol = ticker.toUpperCase();
+  const maxShares =
+    limits.tickers[symbol]?.maxSharesPerOrder ?? limits.maxSharesPerOrder;
+  return shares > maxShares
+    ? `${shares} shares exceeds the ${maxShares} share limit per order for ${symbol}`
+    : null;
+}
+
+interface PricedOrder {
+  ticker: string;
+  shares: number;
+  limitPrice?: number;
+  stopPrice?: number;
+}
+
+// What one order counts towards the day's notional
+export function getOrderNotional(order: PricedOrder, account?: string): number {
+  return (
+    order.shares *
+    (order.limitPrice ??
+      order.stopPrice ??
+      estimatePrice(order.ticker.toUpperCase(), account))
+  );
+}
+
+/**
+ * Checks an action against the current limits. Returns a reject reason, or
+ * null when the action is allowed, in which case each of its orders is
+ * charged `orderNotional` from here on, unless it ends without filling (see
+ * releaseOrderRisk).
+ */
+export function checkOrderRisk(
+  userId: string,
+  action: TradingAction,
+  orderNotional: number,
+): string | null {
+  const now = Date.now();
+  const ticker = action.ticker.toUpperCase();
+  const limits = getRiskLimits(action.account);
+  const usage = getUsage(userId, action.account || "", now);
+
+  if (limits.blockedTickers.includes(ticker)) {
+    return `${ticker} is blocked from trading`;
+  }
+
+  const sizeRejection = checkOrderSize(ticker, action.shares, action.account);
+  if (sizeRejection) return sizeRejection;
+
+  if (action.messageId) {
+    const messageOrders = usage.ordersByMessage[action.messageId] || 0;
+    if (messageOrders + action.quantity > limits.maxOrdersPerMessage) {
+      return `Max ${limits.maxOrdersPerMessage} orders per message reached (${messageOrders} sent)`;
+    }
+  }
+
+  if (usage.orderTimes.length + action.quantity > limits.maxOrdersPerMinute) {
+    return `Max ${limits.maxOrdersPerMinute} orders per minute reached`;
+  }
+
+  const notional = orderNotional * action.quantity;
+  if (usage.notional + notional > limits.maxNotionalPerDay) {
+    return `Daily notional limit of $${limits.maxNotionalPerDay.toLocaleString()} would be exceeded ($${Math.round(usage.notional).toLocaleString()} used)`;
+  }
+
+  usage.notional += notional;
+  for (let i = 0; i < action.quantity; i++) usage.orderTimes.push(now);
+  if (action.messageId) {
+    usage.ordersByMessage[action.messageId] =
+      (usage.ordersByMessage[action.messageId] || 0) + action.quantity;
+  }
+
+  return null;
+}
+
+/**
+ * Checks an open order that was charged `charged` being amended to `after`:
+ * the new size against the per-order limit, and any added notional against
+ * the day's cap. Nothing is charged; call chargeOrderReplace once the change
+ * has gone through.
+ */
+export function checkOrderReplace(
+  userId: string,
+  account: string | undefined,
+  charged: number,
+  after: PricedOrder,
+): string | null {
+  const sizeRejection = checkOrderSize(after.ticker, after.shares, account);
+  if (sizeRejection) return sizeRejection;
+
+  const limits = getRiskLimits(account);
+  const usage = getUsage(userId, account || "", Date.now());
+  const added = getOrderNotional(after, account) - charged;
+  if (added > 0 && usage.notional + added > limits.maxNotionalPerDay) {
+    return `Daily notional limit of $${limits.maxNotionalPerDay.toLocaleString()} would be exceeded ($${Math.round(usage.notional).toLocaleString()} used)`;
+  }
+  return null;
+}
+
+// Charges (or refunds) the difference an amendment made to the day's notional
+export function chargeOrderReplace(
+  userId: string,
+  account: string | undefined,
+  charged: number,
+  notional: number,
+): void {
+  const usage = getUsage(userId, account || "", Date.now());
+  usage.notional = Math.max(0, usage.notional + notional - charged);
+}
+
+/**
+ * Gives back the `charged` notional of an order that ended without filling
+ * (rejected, expired or canceled), so retries through an outage don't use up
+ * the user's limits. Charges from an earlier day have already reset.
+ */
+export function releaseOrderRisk(
+  userId: string,
+  account: string | undefined,
+  charged: number,
+  chargedAt: number,
+  messageId?: string,
+): void {
+  const usage = getUsage(userId, account || "", Date.now());
+  if (new Date(chargedAt).toISOString().slice(0, 10) !== usage.day) return;
+
+  usage.notional = Math.max(0, usage.notional - charged);
+
+  // The order was counted when it was accepted, just before it was queued;
+  // order times are kept oldest first
+  const index = usage.orderTimes.filter((time) => time <= chargedAt).length - 1;
+  if (index !== -1) usage.orderTimes.splice(index, 1);
+
+  if (messageId && usage.ordersByMessage[messageId]) {
+    usage.ordersByMessage[messageId]--;
+  }
+}
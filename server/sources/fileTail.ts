@@ -0,0 +1,82 @@
+import { promises as fs, unwatchFile, watchFile } from "fs";
+import { resolve } from "path";
+import { normalizeMessage } from "./normalize";
+import type { FileSourceConfig, MessageSource, PublishMessage } from "./types";
+
+/**
+ * Follows a JSONL (or plain text) file another process appends to, publishing
+ * each new line. Starts at the end of the file unless `fromStart` is set, and
+ * starts over if the file is truncated or replaced.
+ */
+export function createFileTailSource(config: FileSourceConfig): MessageSource {
+  const filePath = resolve(process.cwd(), config.path);
+  let offset = -1;
+  let partialLine = "";
+  let reading = false;
+  let publish: PublishMessage = () => {};
+
+  const readNewLines = async () => {
+    if (reading) return;
+    reading = true;
+
+    try {
+      const { size } = await fs.stat(filePath);
+
+      if (offset < 0) {
+        offset = config.fromStart ? 0 : size;
+      }
+      if (size < offset) {
+        console.log(`[${config.name}] ${config.path} truncated, rereading`);
+        offset = 0;
+        partialLine = "";
+      }
+      if (size === offset) return;
+
+      const handle = await fs.open(filePath, "r");
+      try {
+        const buffer = Buffer.alloc(size - offset);
+        await handle.read(buffer, 0, buffer.length, offset);
+        offset = size;
+
+        const lines = (partialLine + buffer.toString("utf-8")).split("\n");
+        partialLine = lines.pop() || "";
+
+        lines
+          .map((line) => line.trim())
+          .filter(Boolean)
+          .forEach((line) =>
+            publish(normalizeMessage(line, config.defaults), config.name),
+          );
+      } finally {
+        await handle.close();
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        // Not created yet: read it in full once it shows up
+        offset = 0;
+        partialLine = "";
+      } else {
+        console.error(`[${config.name}] Error reading ${config.path}:`, error);
+      }
+    } finally {
+      reading = false;
+    }
+  };
+
+  return {
+    name: config.name,
+    start(onMessage) {
+      publish = onMessage;
+      readNewLines();
+      // Polling survives the file being rotated or created later
+      watchFile(
+        filePath,
+        { interval: config.pollIntervalMs || 250 },
+        readNewLines,
+      );
+    },
+    stop() {
+      unwatchFile(filePath);
+    },
+  };
+}
@@ -0,0 +1,63 @@
+import { promises as fs } from "fs";
+import { join } from "path";
+import { createFileTailSource } from "./fileTail";
+import { createTcpSource } from "./tcp";
+import type { MessageSource, PublishMessage, SourceConfig } from "./types";
+import { createWebSocketSource } from "./websocket";
+
+const SOURCES_FILE = join(process.cwd(), "data", "message-sources.json");
+
+export function createMessageSource(config: SourceConfig): MessageSource {
+  switch (config.type) {
+    case "file":
+      return createFileTailSource(config);
+    case "tcp":
+      return createTcpSource(config);
+    case "websocket":
+      return createWebSocketSource(config);
+    default:
+      throw new Error(
+        `Unknown message source type: ${(config as { type: string }).type}`,
+      );
+  }
+}
+
+export async function loadSourcesConfig(): Promise<SourceConfig[]> {
+  try {
+    const data = await fs.readFile(SOURCES_FILE, "utf-8");
+    return JSON.parse(data);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error("Error reading message sources config:", error);
+    }
+    return [];
+  }
+}
+
+/**
+ * Starts every enabled source from data/message-sources.json, handing each
+ * normalized message to `publish`. Returns a function that stops them all.
+ */
+export async function startMessageSources(
+  publish: PublishMessage,
+): Promise<() => void> {
+  const configs = await loadSourcesConfig();
+  const sources: MessageSource[] = [];
+
+  configs
+    .filter((config) => config.enabled !== false)
+    .forEach((config) => {
+      try {
+        const source = createMessageSource(config);
+        source.start(publish);
+        sources.push(source);
+        console.log(`Message source started: ${config.name} (${config.type})`);
+      } catch (error) {
+        console.error(`Failed to start message source ${config.name}:`, error);
+      }
+    });
+
+  return () => sources.forEach((source) => source.stop());
+}
+
+export type { MessageSource, SourceConfig } from "./types";
@@ -0,0 +1,76 @@
+import type { TradingMessage } from "../../app/types";
+
+const CASHTAG_PATTERN = /\$([A-Za-z]{1,5})\b/g;
+
+function parseTickers(value: unknown): string[] {
+  const tickers = Array.isArray(value)
+    ? value
+    : typeof value === "string"
+      ? value.split(/[\s,]+/)
+      : [];
+
+  return tickers
+    .filter((ticker): ticker is string => typeof ticker === "string")
+    .map((ticker) => ticker.trim().replace(/^\$/, "").toUpperCase())
+    .filter(Boolean);
+}
+
+/**
+ * Turns one raw feed record into a TradingMessage. JSON records are read
+ * field by field (`tickers` may be an array or a comma/space separated
+ * string, and `text`/`body` are accepted for content); anything else is
+ * treated as plain text with its tickers taken from $CASHTAGS. The result
+ * still goes through the normal message validation before broadcast.
+ */
+export function normalizeMessage(
+  raw: string | Record<string, unknown>,
+  defaults: Partial<TradingMessage> = {},
+): TradingMessage {
+  let record: Record<string, unknown> | null =
+    typeof raw === "object" ? raw : null;
+
+  if (typeof raw === "string") {
+    try {
+      const parsed = JSON.parse(raw);
+      if (parsed && typeof parsed === "object") record = parsed;
+    } catch {
+      // Plain text line
+    }
+  }
+
+  if (!record) {
+    const text = String(raw).trim();
+    return {
+      ...defaults,
+      id: "",
+      sender: defaults.sender || "",
+      name: defaults.name || "",
+      content: text,
+      tickers: parseTickers(
+        Array.from(text.matchAll(CASHTAG_PATTERN), (match) => match[1]),
+      ),
+    };
+  }
+
+  const fields = record;
+  const pick = (...keys: string[]) => {
+    for (const key of keys) {
+      const value = fields[key];
+      if (typeof value === "string") return value;
+    }
+    return undefined;
+  };
+
+  const tickers = parseTickers(fields.tickers ?? fields.symbols);
+
+  return {
+    ...defaults,
+    id: pick("id") || "",
+    sender: pick("sender", "source") || defaults.sender || "",
+    name: pick("name", "author") || defaults.name || "",
+    title: pick("title") ?? defaults.title,
+    content: pick("content", "text", "body") ?? defaults.content,
+    tickers: tickers.length > 0 ? tickers : defaults.tickers || [],
+    timestamp: pick("timestamp") ?? defaults.timestamp,
+  };
+}
@@ -0,0 +1,95 @@
+import { createServer, Socket, type Server } from "net";
+import { normalizeMessage } from "./normalize";
+import type { MessageSource, PublishMessage, TcpSourceConfig } from "./types";
+
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+function handleLines(
+  socket: Socket,
+  config: TcpSourceConfig,
+  publish: PublishMessage,
+) {
+  let partialLine = "";
+
+  socket.setEncoding("utf-8");
+  socket.on("data", (chunk: string) => {
+    const lines = (partialLine + chunk).split(/\r?\n/);
+    partialLine = lines.pop() || "";
+
+    lines
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .forEach((line) =>
+        publish(normalizeMessage(line, config.defaults), config.name),
+      );
+  });
+}
+
+/**
+ * Newline-delimited messages over raw TCP. In `listen` mode feeds connect to
+ * us; in `connect` mode we dial the feed and reconnect with backoff.
+ */
+export function createTcpSource(config: TcpSourceConfig): MessageSource {
+  const host = config.host || "127.0.0.1";
+  let server: Server | null = null;
+  let client: Socket | null = null;
+  let reconnectTimer: NodeJS.Timeout | null = null;
+  let reconnectAttempts = 0;
+  let stopped = false;
+
+  const connect = (publish: PublishMessage) => {
+    const socket = new Socket();
+    client = socket;
+
+    socket.connect(config.port, host, () => {
+      reconnectAttempts = 0;
+      console.log(`[${config.name}] Connected to ${host}:${config.port}`);
+    });
+    handleLines(socket, config, publish);
+
+    socket.on("error", (error) => {
+      console.error(`[${config.name}] TCP error:`, error.message);
+    });
+    socket.on("close", () => {
+      if (stopped) return;
+      const delay = Math.min(
+        1000 * 2 ** reconnectAttempts,
+        MAX_RECONNECT_DELAY_MS,
+      );
+      reconnectAttempts++;
+      reconnectTimer = setTimeout(() => connect(publish), delay);
+    });
+  };
+
+  return {
+    name: config.name,
+    start(publish) {
+      stopped = false;
+
+      if (config.mode === "connect") {
+        connect(publish);
+        return;
+      }
+
+      server = createServer((socket) => {
+        handleLines(socket, config, publish);
+        // A feed dropping its connection mustn't take the server down
+        socket.on("error", (error) => {
+          console.error(`[${config.name}] TCP client error:`, error.message);
+        });
+      });
+      server.on("error", (error) => {
+        console.error(`[${config.name}] TCP server error:`, error.message);
+      });
+      server.listen(config.port, host, () => {
+        console.log(`[${config.name}] Listening on ${host}:${config.port}`);
+      });
+    },
+    stop() {
+      stopped = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      client?.destroy();
+      server?.close();
+    },
+  };
+}
@@ -0,0 +1,42 @@
+import type { TradingMessage } from "../../app/types";
+
+export type PublishMessage = (message: TradingMessage, source: string) => void;
+
+export interface MessageSource {
+  name: string;
+  start(publish: PublishMessage): void;
+  stop(): void;
+}
+
+interface BaseSourceConfig {
+  name: string;
+  enabled?: boolean;
+  // Fields applied to every message from this source unless it sets them
+  defaults?: Partial<TradingMessage>;
+}
+
+export interface FileSourceConfig extends BaseSourceConfig {
+  type: "file";
+  path: string;
+  fromStart?: boolean;
+  pollIntervalMs?: number;
+}
+
+export interface TcpSourceConfig extends BaseSourceConfig {
+  type: "tcp";
+  mode: "listen" | "connect";
+  host?: string;
+  port: number;
+}
+
+export interface WebSocketSourceConfig extends BaseSourceConfig {
+  type: "websocket";
+  url: string;
+  // Sent once the connection opens, e.g. a pub/sub subscribe frame
+  subscribe?: unknown;
+}
+
+export type SourceConfig =
+  | FileSourceConfig
+  | TcpSourceConfig
+  | WebSocketSourceConfig;
@@ -0,0 +1,90 @@
+import WebSocket from "ws";
+import { normalizeMessage } from "./normalize";
+import type {
+  MessageSource,
+  PublishMessage,
+  WebSocketSourceConfig,
+} from "./types";
+
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+/**
+ * Connects to a WebSocket feed (or a pub/sub bridge speaking WebSocket) and
+ * publishes every frame. A frame may hold one message, an array of them, or
+ * an envelope with the message under `message` or `data`.
+ */
+export function createWebSocketSource(
+  config: WebSocketSourceConfig,
+): MessageSource {
+  let ws: WebSocket | null = null;
+  let reconnectTimer: NodeJS.Timeout | null = null;
+  let reconnectAttempts = 0;
+  let stopped = false;
+
+  const handleFrame = (data: WebSocket.RawData, publish: PublishMessage) => {
+    const text = data.toString();
+    let frame: unknown;
+
+    try {
+      frame = JSON.parse(text);
+    } catch {
+      publish(normalizeMessage(text, config.defaults), config.name);
+      return;
+    }
+
+    const envelope = frame as { message?: unknown; data?: unknown };
+    const payload =
+      frame && typeof frame === "object" && !Array.isArray(frame)
+        ? (envelope.message ?? envelope.data ?? frame)
+        : frame;
+    const records = Array.isArray(payload) ? payload : [payload];
+
+    records
+      .filter((record) => record && typeof record === "object")
+      .forEach((record) =>
+        publish(
+          normalizeMessage(record as Record<string, unknown>, config.defaults),
+          config.name,
+        ),
+      );
+  };
+
+  const connect = (publish: PublishMessage) => {
+    const socket = new WebSocket(config.url);
+    ws = socket;
+
+    socket.on("open", () => {
+      reconnectAttempts = 0;
+      console.log(`[${config.name}] Connected to ${config.url}`);
+      if (config.subscribe !== undefined) {
+        socket.send(JSON.stringify(config.subscribe));
+      }
+    });
+    socket.on("message", (data) => handleFrame(data, publish));
+    socket.on("error", (error) => {
+      console.error(`[${config.name}] WebSocket error:`, error.message);
+    });
+    socket.on("close", () => {
+      if (stopped) return;
+      const delay = Math.min(
+        1000 * 2 ** reconnectAttempts,
+        MAX_RECONNECT_DELAY_MS,
+      );
+      reconnectAttempts++;
+      reconnectTimer = setTimeout(() => connect(publish), delay);
+    });
+  };
+
+  return {
+    name: config.name,
+    start(publish) {
+      stopped = false;
+      connect(publish);
+    },
+    stop() {
+      stopped = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      ws?.close();
+    },
+  };
+}
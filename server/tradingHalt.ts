@@ -0,0 +1,51 @@
+import type { TradingHaltState } from "../app/types";
+
+type TradingHaltListener = (state: TradingHaltState) => void;
+
+let haltState: TradingHaltState | null = null;
+const listeners = new Set<TradingHaltListener>();
+
+export function getTradingHalt(): TradingHaltState {
+  // Read lazily so the TRADING_HALTED flag from .env is loaded by now
+  if (!haltState) {
+    const halted = process.env.TRADING_HALTED === "true";
+    haltState = {
+      halted,
+      reason: halted ? "Halted by server flag" : undefined,
+      updatedBy: "server",
+      updatedAt: new Date().toISOString(),
+    };
+  }
+  return haltState;
+}
+
+export function isTradingHalted(): boolean {
+  return getTradingHalt().halted;
+}
+
+export function setTradingHalt(
+  halted: boolean,
+  updatedBy: string,
+  reason?: string,
+): TradingHaltState {
+  const state: TradingHaltState = {
+    halted,
+    reason: halted ? reason || "Trading halted" : undefined,
+    updatedBy,
+    updatedAt: new Date().toISOString(),
+  };
+  haltState = state;
+
+  console.log(
+    `Trading ${halted ? "HALTED" : "resumed"} by ${updatedBy}${
+      state.reason ? `: ${state.reason}` : ""
+    }`,
+  );
+  listeners.forEach((listener) => listener(state));
+  return state;
+}
+
+export function onTradingHaltChange(listener: TradingHaltListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
@@ -0,0 +1,219 @@
+import type { TradingAction, TradingMessage } from "../app/types";
+import type {
+  CancelOrderRequest,
+  CancelOrdersRequest,
+  PayloadIssue,
+  ReplaceOrderRequest,
+  TradingHaltRequest,
+} from "../app/types/socket";
+
+export type ValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: PayloadIssue[] };
+
+/**
+ * A schema checks an unknown value, appends an issue for every problem it
+ * finds, and returns the value as accepted: objects keep only the keys in
+ * their shape. They're deliberately tiny: just enough to describe the socket
+ * payloads, without pulling in a validation library.
+ */
+export type Schema<T> = {
+  check: (value: unknown, path: string, issues: PayloadIssue[]) => unknown;
+  // Phantom field so schemas carry their output type
+  readonly _type?: T;
+};
+
+type Infer<S> = S extends Schema<infer T> ? T : never;
+
+const describe = (value: unknown) =>
+  value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+
+export const string = (options: { nonEmpty?: boolean; max?: number } = {}) =>
+  ({
+    check(value, path, issues) {
+      if (typeof value !== "string") {
+        issues.push({
+          path,
+          message: `Expected string, got ${describe(value)}`,
+        });
+      } else if (options.nonEmpty && value.trim() === "") {
+        issues.push({ path, message: "Must not be empty" });
+      } else if (options.max && value.length > options.max) {
+        issues.push({
+          path,
+          message: `Must be at most ${options.max} characters`,
+        });
+      }
+      return value;
+    },
+  }) as Schema<string>;
+
+export const number = (
+  options: { integer?: boolean; min?: number; max?: number } = {},
+) =>
+  ({
+    check(value, path, issues) {
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        issues.push({
+          path,
+          message: `Expected number, got ${describe(value)}`,
+        });
+      } else if (options.integer && !Number.isInteger(value)) {
+        issues.push({ path, message: "Must be a whole number" });
+      } else if (options.min !== undefined && value < options.min) {
+        issues.push({ path, message: `Must be at least ${options.min}` });
+      } else if (options.max !== undefined && value > options.max) {
+        issues.push({ path, message: `Must be at most ${options.max}` });
+      }
+      return value;
+    },
+  }) as Schema<number>;
+
+export const boolean = () =>
+  ({
+    check(value, path, issues) {
+      if (typeof value !== "boolean") {
+        issues.push({
+          path,
+          message: `Expected boolean, got ${describe(value)}`,
+        });
+      }
+      return value;
+    },
+  }) as Schema<boolean>;
+
+export const oneOf = <T extends string>(...values: T[]) =>
+  ({
+    check(value, path, issues) {
+      if (!values.includes(value as T)) {
+        issues.push({ path, message: `Expected one of: ${values.join(", ")}` });
+      }
+      return value;
+    },
+  }) as Schema<T>;
+
+export const optional = <T>(schema: Schema<T>) =>
+  ({
+    check(value, path, issues) {
+      return value === undefined || value === null
+        ? undefined
+        : schema.check(value, path, issues);
+    },
+  }) as Schema<T | undefined>;
+
+export const array = <T>(
+  schema: Schema<T>,
+  options: { nonEmpty?: boolean } = {},
+) =>
+  ({
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({
+          path,
+          message: `Expected array, got ${describe(value)}`,
+        });
+        return value;
+      }
+      if (options.nonEmpty && value.length === 0) {
+        issues.push({ path, message: "Must not be empty" });
+      }
+      return value.map((item, i) =>
+        schema.check(item, `${path}[${i}]`, issues),
+      );
+    },
+  }) as Schema<T[]>;
+
+export const object = <Shape extends Record<string, Schema<unknown>>>(
+  shape: Shape,
+) =>
+  ({
+    check(value, path, issues) {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        issues.push({
+          path: path || "(payload)",
+          message: `Expected object, got ${describe(value)}`,
+        });
+        return value;
+      }
+      // Keys the shape doesn't list are dropped, so a sender can't slip in
+      // server-side fields like `stale` or `seenCount`
+      const output: Record<string, unknown> = {};
+      Object.entries(shape).forEach(([key, schema]) => {
+        const checked = schema.check(
+          (value as Record<string, unknown>)[key],
+          path ? `${path}.${key}` : key,
+          issues,
+        );
+        if (checked !== undefined) output[key] = checked;
+      });
+      return output;
+    },
+  }) as Schema<{ [K in keyof Shape]: Infer<Shape[K]> }>;
+
+export function validate<T>(
+  schema: Schema<T>,
+  value: unknown,
+): ValidationResult<T> {
+  const issues: PayloadIssue[] = [];
+  const data = schema.check(value, "", issues);
+  return issues.length > 0
+    ? { success: false, issues }
+    : { success: true, data: data as T };
+}
+
+export const tradingActionSchema: Schema<TradingAction> = object({
+  action: oneOf("buy", "sell"),
+  ticker: string({ nonEmpty: true, max: 16 }),
+  shares: number({ integer: true, min: 1 }),
+  quantity: number({ integer: true, min: 1, max: 100 }),
+  timestamp: string(),
+  messageId: optional(string()),
+  timingMs: optional(number()),
+  sender: optional(string()),
+  name: optional(string()),
+  clientOrderId: optional(string({ nonEmpty: true, max: 128 })),
+  orderType: optional(oneOf("market", "limit", "stop", "marketable_limit")),
+  limitPrice: optional(number({ min: 0.0001 })),
+  stopPrice: optional(number({ min: 0.0001 })),
+  timeInForce: optional(oneOf("day", "gtc", "ioc", "fok")),
+  offsetPercent: optional(number({ min: -50, max: 50 })),
+  bracket: optional(
+    object({
+      takeProfitPercent: optional(number({ min: 0.01, max: 100 })),
+      stopLossPercent: optional(number({ min: 0.01, max: 99 })),
+    }),
+  ),
+  account: optional(string({ nonEmpty: true, max: 64 })),
+});
+
+// Only checks types; prepareTradingMessage applies it along with the
+// required-field rules, so every ingestion path shares them
+export const tradingMessageSchema: Schema<TradingMessage> = object({
+  id: optional(string()),
+  sender: optional(string()),
+  name: optional(string()),
+  title: optional(string()),
+  content: optional(string()),
+  tickers: optional(array(string())),
+  timestamp: optional(string()),
+}) as Schema<TradingMessage>;
+
+export const tradingHaltRequestSchema: Schema<TradingHaltRequest> = object({
+  halted: boolean(),
+  reason: optional(string({ max: 200 })),
+});
+
+export const cancelOrderRequestSchema: Schema<CancelOrderRequest> = object({
+  clientOrderId: string({ nonEmpty: true, max: 128 }),
+});
+
+export const cancelOrdersRequestSchema: Schema<CancelOrdersRequest> = object({
+  tickers: optional(array(string({ nonEmpty: true, max: 16 }))),
+});
+
+export const replaceOrderRequestSchema: Schema<ReplaceOrderRequest> = object({
+  clientOrderId: string({ nonEmpty: true, max: 128 }),
+  shares: optional(number({ integer: true, min: 1 })),
+  limitPrice: optional(number({ min: 0.0001 })),
+  stopPrice: optional(number({ min: 0.0001 })),
+});
@@ -1,62 +1,460 @@
-import { Server as SocketIOServer } from "socket.io";
-import WebSocket from "ws";
-import type { TradingAction, TradingMessage } from "../app/types";
+import { Server as SocketIOServer, type Socket } from "socket.io";
+import type {
+  TradingAction,
+  TradingLog,
+  TradingOrderResult,
+  TradingResponse,
+} from "../app/types";
+import type {
+  ClientToServerEvents,
+  InterServerEvents,
+  ServerToClientEvents,
+  SocketData,
+} from "../app/types/socket";
 import { verifyToken } from "../app/utils/auth.server";
+import { getUserAccounts, resolveAccount } from "./accounts";
+import { buildBackendOrder, generateClientOrderId } from "./backend";
+import {
+  checkBracket,
+  getBrackets,
+  isBracketLeg,
+  openBracket,
+  setBracketListener,
+  updateBracketLeg,
+} from "./brackets";
+import { runIdempotent } from "./idempotency";
 import { logTradingAction } from "./logger";
+import { getLastSeq, getMessagesSince } from "./messageStore";
+import { broadcastTradingMessage, prepareTradingMessage } from "./messages";
+import {
+  cancelOrderById,
+  cancelOrdersForTickers,
+  replaceUserOrder,
+} from "./orders";
+import { priceOrder } from "./orderTypes";
+import {
+  getPaperAccount,
+  isPaperOnlyUser,
+  loadPaperAccounts,
+  recordPaperFill,
+} from "./paper";
+import { getPositions, loadPositions, recordTrade } from "./positions";
+import { getLastPrice, getLastPrices } from "./prices";
+import {
+  checkOrderRisk,
+  checkOrderSize,
+  getOrderNotional,
+  releaseOrderRisk,
+} from "./risk";
+import {
+  getTradingHalt,
+  isTradingHalted,
+  onTradingHaltChange,
+  setTradingHalt,
+} from "./tradingHalt";
+import {
+  enqueueOrder,
+  getPendingOrders,
+  setOrderFillListener,
+  setOrderStatusListener,
+  toOrderStatusUpdate,
+  type OutboxEntry,
+} from "./outbox";
+import {
+  cancelOrderRequestSchema,
+  cancelOrdersRequestSchema,
+  replaceOrderRequestSchema,
+  tradingActionSchema,
+  tradingHaltRequestSchema,
+  tradingMessageSchema,
+  validate,
+  type Schema,
+} from "./validation";
+
+export type TradingServer = SocketIOServer<
+  ClientToServerEvents,
+  ServerToClientEvents,
+  InterServerEvents,
+  SocketData
+>;
+
+type TradingSocket = Socket<
+  ClientToServerEvents,
+  ServerToClientEvents,
+  InterServerEvents,
+  SocketData
+>;
+
+/**
+ * Checks an inbound payload against its schema. Anything that doesn't match
+ * is answered with a `payload_error` instead of reaching the handler.
+ */
+function parsePayload<T>(
+  socket: TradingSocket,
+  event: keyof ClientToServerEvents,
+  schema: Schema<T>,
+  payload: unknown,
+): T | null {
+  const result = validate(schema, payload);
+  if (result.success) return result.data;
+
+  console.warn(
+    `Invalid ${event} payload from ${socket.data.userId}:`,
+    result.issues,
+  );
+  socket.emit("payload_error", {
+    event,
+    error: "Invalid payload",
+    issues: result.issues,
+  });
+  return null;
+}
 
-const sendTradingDataToBackend = async (
+// Orders go through the outbox, which retries while the backend is
+// unreachable and settles once the order is acked, rejected or expired.
+// Paper orders take the same path to the paper engine instead.
+const sendTradingDataToBackend = (
+  userId: string,
   action: TradingAction,
-): Promise<void> => {
-  const backendWsUrl =
-    process.env.BACKEND_WEBSOCKET_URL || "http://localhost:8080";
-
-  if (!backendWsUrl) {
-    throw new Error("BACKEND_WEBSOCKET_URL environment variable is not set");
+  clientOrderId: string,
+  paper: boolean,
+  chargedNotional?: number,
+): Promise<OutboxEntry> =>
+  enqueueOrder(
+    userId,
+    action,
+    buildBackendOrder(action, clientOrderId),
+    paper,
+    false,
+    chargedNotional,
+  );
+
+// A user's live and paper sessions see only their own orders and positions
+const userRoom = (userId: string, paper?: boolean) =>
+  paper ? `user:${userId}:paper` : `user:${userId}`;
+
+// Acks for a multi-quantity order land together; serialize the history
+// writes so they don't overwrite each other.
+let logQueue: Promise<unknown> = Promise.resolve();
+
+async function processTradingAction(
+  userId: string,
+  requested: TradingAction,
+  paper: boolean,
+): Promise<TradingResponse> {
+  const account = resolveAccount(userId, requested.account);
+  const action =
+    typeof account === "string"
+      ? account
+      : priceOrder({ ...requested, account: account.id });
+  const invalid = typeof action === "string" ? action : checkBracket(action);
+  if (typeof action === "string" || invalid) {
+    return {
+      success: false,
+      status: "invalid",
+      message: `${requested.action.toUpperCase()} ${requested.ticker} not sent: ${invalid}`,
+      error: invalid!,
+      action: requested.action,
+      ticker: requested.ticker,
+      shares: requested.shares,
+      quantity: requested.quantity,
+      timestamp: new Date().toISOString(),
+      messageId: requested.messageId,
+      clientOrderId: requested.clientOrderId,
+    };
   }
 
-  try {
-    const backendWs = new WebSocket(backendWsUrl);
+  // Paper orders never leave, so the kill switch doesn't apply to them
+  if (isTradingHalted() && !paper) {
+    const { reason } = getTradingHalt();
+    await logTradingAction({
+      timestamp: new Date().toISOString(),
+      userId,
+      action: action.action,
+      ticker: action.ticker,
+      shares: action.shares,
+      quantity: action.quantity,
+      success: false,
+      error: `Trading halted: ${reason}`,
+      messageId: action.messageId,
+      clientOrderId: action.clientOrderId,
+      sender: action.sender,
+      name: action.name,
+      account: action.account,
+    });
+
+    return {
+      success: false,
+      status: "halted",
+      message: "Trading is halted, order not sent",
+      error: reason,
+      action: action.action,
+      ticker: action.ticker,
+      shares: action.shares,
+      quantity: action.quantity,
+      timestamp: new Date().toISOString(),
+      messageId: action.messageId,
+      clientOrderId: action.clientOrderId,
+    };
+  }
 
-    const tradingData = {
+  // Daily usage limits are for live exposure; paper only gets the size check.
+  // Each order records what it was charged so exactly that is given back.
+  const orderNotional = paper
+    ? undefined
+    : getOrderNotional(action, action.account);
+  const riskRejection =
+    orderNotional === undefined
+      ? checkOrderSize(action.ticker, action.shares, action.account)
+      : checkOrderRisk(userId, action, orderNotional);
+  if (riskRejection) {
+    console.log(`Risk rejected order from ${userId}: ${riskRejection}`);
+    await logTradingAction({
+      timestamp: new Date().toISOString(),
+      userId,
+      action: action.action,
+      ticker: action.ticker,
+      shares: action.shares,
+      quantity: action.quantity,
+      success: false,
+      error: `Risk check: ${riskRejection}`,
+      messageId: action.messageId,
+      clientOrderId: action.clientOrderId,
       sender: action.sender,
       name: action.name,
-      type:
-        action.action.charAt(0).toUpperCase() +
-        action.action.slice(1).toLowerCase(),
+      paper: paper || undefined,
+      account: action.account,
+    });
+
+    return {
+      success: false,
+      status: "risk_rejected",
+      message: `${action.action.toUpperCase()} ${action.shares} ${action.ticker} blocked by risk check`,
+      error: riskRejection,
+      action: action.action,
+      ticker: action.ticker,
+      shares: action.shares,
+      quantity: action.quantity,
       timestamp: new Date().toISOString(),
+      messageId: action.messageId,
+      clientOrderId: action.clientOrderId,
+    };
+  }
+
+  // Process multiple orders (quantity support). Orders are sent together over
+  // the shared backend connection and acknowledged independently, so one slow
+  // ack doesn't hold up the others. Each one gets an id derived from the
+  // action's so a replayed action maps onto the same backend orders.
+  const baseOrderId = action.clientOrderId || generateClientOrderId();
+  const clientOrderIds = Array.from({ length: action.quantity }, (_, i) =>
+    action.quantity === 1 ? baseOrderId : `${baseOrderId}-${i + 1}`,
+  );
+  const results = await Promise.all(
+    clientOrderIds.map((clientOrderId) =>
+      sendTradingDataToBackend(
+        userId,
+        action,
+        clientOrderId,
+        paper,
+        orderNotional,
+      ),
+    ),
+  );
+
+  const responses: TradingOrderResult[] = results.map((entry, i) => ({
+    orderNumber: i + 1,
+    clientOrderId: entry.clientOrderId,
+    status: entry.status,
+    error: entry.status === "acked" ? undefined : entry.error,
+    action: action.action,
+    ticker: action.ticker,
+    shares: action.shares,
+  }));
+
+  const acked = responses.filter((order) => !order.error).length;
+  if (acked < responses.length) {
+    return {
+      success: false,
+      status: "failed",
+      message: `${action.action.toUpperCase()} order failed: ${acked}/${responses.length} acknowledged for ${action.shares} shares of ${action.ticker}`,
+      error: responses.find((order) => order.error)?.error,
+      action: action.action,
       ticker: action.ticker,
       shares: action.shares,
-      target: "DECK", // NOTE: Could be anything
+      quantity: acked,
+      timestamp: new Date().toISOString(),
+      messageId: action.messageId,
+      clientOrderId: baseOrderId,
+      orders: responses,
     };
+  }
 
-    return new Promise((resolve, reject) => {
-      backendWs.on("open", () => {
-        backendWs.send(JSON.stringify(tradingData));
-        backendWs.close();
-        resolve();
-      });
+  // Send confirmation back
+  return {
+    success: true,
+    status: "executed",
+    message: `${action.action.toUpperCase()} order acknowledged: ${action.quantity}x ${action.shares} shares of ${action.ticker}`,
+    action: action.action,
+    ticker: action.ticker,
+    shares: action.shares,
+    quantity: action.quantity,
+    timestamp: new Date().toISOString(),
+    messageId: action.messageId, // Include message ID in response
+    clientOrderId: baseOrderId,
+    orders: responses,
+  };
+}
 
-      backendWs.on("error", (error) => {
-        console.error("Backend WebSocket error:", error);
-        reject(error);
-      });
+// Records a fill in the history and the user's position, in order
+function recordFill(io: TradingServer, log: TradingLog): void {
+  logQueue = logQueue.then(async () => {
+    // Positions and paper accounts are rebuilt from history on startup; wait
+    // for that so this fill isn't counted twice
+    await Promise.all([loadPositions(), loadPaperAccounts()]);
+    await logTradingAction(log);
+
+    if (!log.success) return;
+    const room = io.to(userRoom(log.userId, log.paper));
+    const position = recordTrade(log);
+    if (position) {
+      room.emit("position_update", position);
+    }
+    if (log.paper) {
+      room.emit("paper_account", recordPaperFill(log));
+    }
+  });
+}
 
-      backendWs.on("close", () => {
-        resolve();
-      });
+export function setupWebSocket(io: TradingServer) {
+  // Report every outbox transition to the user who placed the order, and log
+  // the order if it ends without filling.
+  setOrderStatusListener((entry) => {
+    io.to(userRoom(entry.userId, entry.paper)).emit(
+      "order_status",
+      toOrderStatusUpdate(entry),
+    );
+
+    if (entry.status === "queued" || entry.status === "sent") return;
+
+    // Bracket exits are only logged once they fill, or if they're rejected
+    if (isBracketLeg(entry.clientOrderId)) {
+      updateBracketLeg(
+        entry.clientOrderId,
+        entry.status,
+        entry.error,
+        entry.fillPrice,
+      );
+      if (entry.status !== "rejected" && entry.status !== "expired") return;
+    } else if (entry.status === "acked" && entry.action.bracket) {
+      openBracket(
+        entry.userId,
+        entry.action,
+        entry.clientOrderId,
+        entry.paper,
+        entry.fillPrice,
+      );
+    }
+
+    // Fills are logged as they're reported
+    if (entry.status === "working" || entry.status === "acked") return;
+
+    // An order that never filled stops counting against the risk limits.
+    // Only live orders were charged; bracket exits and paper orders weren't.
+    if (entry.chargedNotional !== undefined && !entry.filledShares) {
+      releaseOrderRisk(
+        entry.userId,
+        entry.action.account,
+        entry.chargedNotional,
+        new Date(entry.createdAt).getTime(),
+        entry.action.messageId,
+      );
+    }
+
+    recordFill(io, {
+      timestamp: new Date().toISOString(),
+      userId: entry.userId,
+      action: entry.action.action,
+      ticker: entry.action.ticker,
+      shares: entry.action.shares,
+      quantity: 1, // Each log entry is for 1 execution
+      success: false,
+      error: entry.error,
+      messageId: entry.action.messageId, // Link to the triggering message
+      clientOrderId: entry.clientOrderId,
+      sender: entry.action.sender,
+      name: entry.action.name,
+      orderType: entry.action.orderType,
+      limitPrice: entry.action.limitPrice,
+      stopPrice: entry.action.stopPrice,
+      paper: entry.paper,
+      account: entry.action.account,
     });
-  } catch (wsError) {
-    console.error("Error sending to backend WebSocket:", wsError);
-    throw wsError;
-  }
-};
+  });
+
+  // Book each fill at the price and size the backend reported. Bracket exits
+  // are booked by their bracket below.
+  setOrderFillListener((entry, fill) => {
+    if (isBracketLeg(entry.clientOrderId)) return;
+
+    recordFill(io, {
+      timestamp: new Date().toISOString(),
+      userId: entry.userId,
+      action: entry.action.action,
+      ticker: entry.action.ticker,
+      shares: fill.shares,
+      quantity: 1,
+      success: true,
+      messageId: entry.action.messageId,
+      clientOrderId: entry.clientOrderId,
+      sender: entry.action.sender,
+      name: entry.action.name,
+      price: fill.price ?? getLastPrice(entry.action.ticker),
+      orderType: entry.action.orderType,
+      limitPrice: entry.action.limitPrice,
+      stopPrice: entry.action.stopPrice,
+      paper: entry.paper,
+      account: entry.action.account,
+    });
+  });
+
+  setBracketListener((bracket, filled) => {
+    io.to(userRoom(bracket.userId, bracket.paper)).emit(
+      "bracket_update",
+      bracket,
+    );
+    if (!filled) return;
+
+    recordFill(io, {
+      timestamp: new Date().toISOString(),
+      userId: bracket.userId,
+      action: bracket.action,
+      ticker: bracket.ticker,
+      shares: bracket.shares,
+      quantity: 1,
+      success: true,
+      messageId: bracket.messageId,
+      clientOrderId: filled.clientOrderId,
+      sender: bracket.sender,
+      name: bracket.name,
+      price: filled.fillPrice,
+      orderType: filled.orderType,
+      limitPrice: filled.orderType === "limit" ? filled.price : undefined,
+      stopPrice: filled.orderType === "stop" ? filled.price : undefined,
+      paper: bracket.paper,
+      account: bracket.account,
+    });
+  });
+
+  // Every client sees halts and resumes, whoever triggered them
+  onTradingHaltChange((state) => {
+    io.emit("trading_halt", state);
+  });
 
-export function setupWebSocket(io: SocketIOServer) {
   // Authentication middleware
   io.use((socket, next) => {
     const token = socket.handshake.auth.token;
 
-    if (!token) {
+    if (!token || typeof token !== "string") {
       return next(new Error("Authentication required"));
     }
 
@@ -67,75 +465,62 @@ export function setupWebSocket(io: SocketIOServer) {
     }
 
     socket.data.userId = userId;
+    socket.data.paper =
+      isPaperOnlyUser(userId) || socket.handshake.auth.paper === true;
     next();
   });
 
   io.on("connection", (socket) => {
-    console.log(`User ${socket.data.userId} connected`);
+    const { userId, paper } = socket.data;
+    console.log(`User ${userId} connected${paper ? " (paper)" : ""}`);
+    socket.join(userRoom(userId, paper));
 
     // Handle trading actions
-    socket.on("trading_action", async (action: TradingAction) => {
-      try {
-        console.log(`Trading action from ${socket.data.userId}:`, action);
-
-        // Validate action
-        if (
-          !action.action ||
-          !action.ticker ||
-          !action.shares ||
-          !action.quantity
-        ) {
-          socket.emit("trading_response", {
-            success: false,
-            message: "Invalid trading action",
-            error: "Missing required fields",
-          });
-          return;
-        }
+    socket.on("trading_action", async (payload) => {
+      const action = parsePayload(
+        socket,
+        "trading_action",
+        tradingActionSchema,
+        payload,
+      );
+      if (!action) return;
 
-        // Process multiple orders (quantity support)
-        const responses = [];
-        for (let i = 0; i < action.quantity; i++) {
-          await sendTradingDataToBackend(action);
-          // Log each individual action with message context
-          const logResult = await logTradingAction({
-            timestamp: new Date().toISOString(),
-            userId: socket.data.userId,
-            action: action.action,
-            ticker: action.ticker,
-            shares: action.shares,
-            quantity: 1, // Each log entry is for 1 execution
-            success: true,
-            messageId: action.messageId, // Link to the triggering message
-          });
-
-          responses.push({
-            orderNumber: i + 1,
-            action: action.action,
-            ticker: action.ticker,
-            shares: action.shares,
-          });
+      try {
+        console.log(`Trading action from ${userId}:`, action);
+
+        // Replays of an order id we've already seen (hotkey double-fires,
+        // re-emits after reconnect) get the original response back.
+        const { result, replayed } = action.clientOrderId
+          ? await runIdempotent(`${userId}:${action.clientOrderId}`, () =>
+              processTradingAction(userId, action, paper),
+            )
+          : {
+              result: await processTradingAction(
+                userId,
+                {
+                  ...action,
+                  clientOrderId: generateClientOrderId(),
+                },
+                paper,
+              ),
+              replayed: false,
+            };
+
+        if (replayed) {
+          console.log(`Replayed trading response for ${action.clientOrderId}`);
         }
 
-        // Send confirmation back
-        socket.emit("trading_response", {
-          success: true,
-          message: `${action.action.toUpperCase()} order executed: ${action.quantity}x ${action.shares} shares of ${action.ticker}`,
-          action: action.action,
-          ticker: action.ticker,
-          shares: action.shares,
-          quantity: action.quantity,
-          timestamp: new Date().toISOString(),
-          messageId: action.messageId, // Include message ID in response
-          orders: responses,
-        });
+        socket.emit(
+          "trading_response",
+          replayed ? { ...result, replayed } : result,
+        );
       } catch (error) {
         console.error("Error processing trading action:", error);
 
         // Log failed action
         await logTradingAction({
           timestamp: new Date().toISOString(),
-          userId: socket.data.userId,
+          userId,
           action: action.action,
           ticker: action.ticker,
           shares: action.shares,
@@ -143,58 +528,131 @@ export function setupWebSocket(io: SocketIOServer) {
           success: false,
           error: error instanceof Error ? error.message : "Unknown error",
           messageId: action.messageId,
+          clientOrderId: action.clientOrderId,
+          sender: action.sender,
+          name: action.name,
+          paper: paper || undefined,
+          account: action.account,
         });
 
         socket.emit("trading_response", {
           success: false,
           message: "Trading action failed",
           error: error instanceof Error ? error.message : "Unknown error",
+          clientOrderId: action.clientOrderId,
         });
       }
     });
 
+    // Kill switch: halts or resumes all outgoing orders for everyone
+    socket.on("set_trading_halt", (payload) => {
+      const request = parsePayload(
+        socket,
+        "set_trading_halt",
+        tradingHaltRequestSchema,
+        payload,
+      );
+      if (request) {
+        setTradingHalt(request.halted, socket.data.userId, request.reason);
+      }
+    });
+
+    socket.on("cancel_order", (payload) => {
+      const request = parsePayload(
+        socket,
+        "cancel_order",
+        cancelOrderRequestSchema,
+        payload,
+      );
+      if (!request) return;
+
+      const canceled = cancelOrderById(userId, paper, request.clientOrderId);
+      socket.emit("order_request_result", {
+        request: "cancel_order",
+        success: canceled > 0,
+        message:
+          canceled > 0
+            ? `Canceling ${canceled} order(s)`
+            : "No open orders to cancel",
+        clientOrderId: request.clientOrderId,
+        canceled,
+      });
+    });
+
+    socket.on("cancel_orders", (payload) => {
+      const request = parsePayload(
+        socket,
+        "cancel_orders",
+        cancelOrdersRequestSchema,
+        payload,
+      );
+      if (!request) return;
+
+      const canceled = cancelOrdersForTickers(userId, paper, request.tickers);
+      const scope = request.tickers
+        ? ` in ${request.tickers.join(", ").toUpperCase()}`
+        : "";
+      socket.emit("order_request_result", {
+        request: "cancel_orders",
+        success: canceled > 0,
+        message:
+          canceled > 0
+            ? `Canceling ${canceled} order(s)${scope}`
+            : `No open orders${scope} to cancel`,
+        canceled,
+      });
+    });
+
+    socket.on("replace_order", (payload) => {
+      const request = parsePayload(
+        socket,
+        "replace_order",
+        replaceOrderRequestSchema,
+        payload,
+      );
+      if (!request) return;
+
+      const error = replaceUserOrder(userId, paper, request);
+      socket.emit("order_request_result", {
+        request: "replace_order",
+        success: !error,
+        message: error || "Order updated",
+        clientOrderId: request.clientOrderId,
+      });
+    });
+
     // Handle incoming trading messages (simulated market messages)
-    socket.on("send_trading_message", (message: TradingMessage) => {
+    socket.on("send_trading_message", (payload) => {
+      const message = parsePayload(
+        socket,
+        "send_trading_message",
+        tradingMessageSchema,
+        payload,
+      );
+      if (!message) return;
+
       try {
         console.log(
           `Broadcasting message from ${socket.data.userId}:`,
           message,
         );
 
-        // Validate message structure
-        if (!message.sender || !message.name || !message.tickers?.length) {
+        const prepared = prepareTradingMessage(message);
+
+        if (prepared.status === "invalid") {
           socket.emit("message_error", {
-            error: "Invalid message format",
-            message: "Missing required fields: sender, name, or tickers",
+            error: prepared.error,
+            message: prepared.message,
           });
           return;
         }
 
-        // Check if message should be sent (title or content present)
-        const hasTitle = message.title && message.title.trim() !== "";
-        const hasContent = message.content && message.content.trim() !== "";
-
-        if (!hasTitle && !hasContent) {
-          console.log("Message not sent - no title or content");
+        if (prepared.status === "skipped") {
+          console.log(`Message not sent - ${prepared.reason}`);
           return;
         }
 
-        // Generate unique message ID if not provided
-        const messageId =
-          message.id ||
-          `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-        // Add timestamp and ID if not present
-        const messageWithMetadata: TradingMessage = {
-          ...message,
-          id: messageId,
-          timestamp: message.timestamp || new Date().toISOString(),
-        };
-
-        // Broadcast to all connected clients
-        io.emit("trading_message", messageWithMetadata);
-
-        console.log(`Message broadcasted with ID: ${messageId}`);
+        broadcastTradingMessage(io, prepared.message);
       } catch (error) {
         console.error("Error processing trading message:", error);
         socket.emit("message_error", {
@@ -219,7 +677,40 @@ export function setupWebSocket(io: SocketIOServer) {
       message: "Successfully connected to trading server",
       userId: socket.data.userId,
       timestamp: new Date().toISOString(),
+      lastSeq: getLastSeq(),
+      paper,
+      paperOnly: isPaperOnlyUser(userId),
+      accounts: getUserAccounts(userId),
     });
+
+    // Reconnecting clients send the last sequence they saw; replay the rest
+    const resumeFrom = socket.handshake.auth.lastSeq;
+    if (typeof resumeFrom === "number" && resumeFrom < getLastSeq()) {
+      const missed = getMessagesSince(resumeFrom);
+      console.log(
+        `Replaying ${missed.length} message(s) to ${socket.data.userId}`,
+      );
+      missed.forEach((message) => socket.emit("trading_message", message));
+    }
+
+    socket.emit("trading_halt", getTradingHalt());
+
+    socket.emit("prices_snapshot", getLastPrices());
+    loadPositions().then(() =>
+      socket.emit("positions_snapshot", getPositions(userId, paper)),
+    );
+    socket.emit("brackets_snapshot", getBrackets(userId, paper));
+    if (paper) {
+      loadPaperAccounts().then(() =>
+        socket.emit("paper_account", getPaperAccount(userId)),
+      );
+    }
+
+    // Let the dashboard know which of its orders are still in flight
+    socket.emit(
+      "outbox_snapshot",
+      getPendingOrders(userId, paper).map(toOrderStatusUpdate),
+    );
   });
 
   // Handle server-level errors